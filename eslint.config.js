@@ -20,4 +20,12 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // The only useReactTable caller. The compiler skipping this component is expected:
+    // tanstack returns a stable, mutable table instance.
+    files: ['src/components/ui/DataTable.tsx'],
+    rules: {
+      'react-hooks/incompatible-library': 'off',
+    },
+  },
 ])
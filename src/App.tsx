@@ -2,6 +2,7 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'sonner';
 import { Layout } from './components/layout/Layout';
 import { ProtectedRoute } from './components/layout/ProtectedRoute';
+import { ConfirmDialogHost } from './components/ui/ConfirmDialog';
 import { Login } from './pages/Login';
 
 import { Dashboard } from './pages/Dashboard';
@@ -10,28 +11,65 @@ import { Dashboard } from './pages/Dashboard';
 import { DramaList } from './pages/dramas/DramaList';
 import { DramaForm } from './pages/dramas/DramaForm';
 import { EpisodeManage } from './pages/dramas/EpisodeManage';
+import { DramaImport } from './pages/dramas/DramaImport';
 import { Genres } from './pages/Genres';
 import { Actors } from './pages/Actors';
+import { ActorDetail } from './pages/actors/ActorDetail';
 import { Users } from './pages/Users';
+import { UserDetail } from './pages/users/UserDetail';
+import { TopContent } from './pages/analytics/TopContent';
+import { ReleaseCalendar } from './pages/releases/ReleaseCalendar';
+import { ContentHealth } from './pages/health/ContentHealth';
+import { MediaLibrary } from './pages/media/MediaLibrary';
+import { AuditLog } from './pages/audit/AuditLog';
+import { Trash } from './pages/trash/Trash';
 
 function App() {
   return (
     <BrowserRouter>
       <Toaster position="top-right" richColors />
+      <ConfirmDialogHost />
       <Routes>
         <Route path="/login" element={<Login />} />
 
         {/* Protected Routes */}
         <Route element={<ProtectedRoute />}>
           <Route element={<Layout />}>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/dramas" element={<DramaList />} />
-            <Route path="/dramas/new" element={<DramaForm />} />
-            <Route path="/dramas/:id/edit" element={<DramaForm />} />
-            <Route path="/dramas/:dramaId/episodes" element={<EpisodeManage />} />
-            <Route path="/genres" element={<Genres />} />
-            <Route path="/actors" element={<Actors />} />
-            <Route path="/users" element={<Users />} />
+            <Route element={<ProtectedRoute permission="dashboard:view" />}>
+              <Route path="/" element={<Dashboard />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="dramas:view" />}>
+              <Route path="/dramas" element={<DramaList />} />
+              <Route path="/releases" element={<ReleaseCalendar />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="dramas:edit" />}>
+              <Route path="/dramas/new" element={<DramaForm />} />
+              <Route path="/dramas/import" element={<DramaImport />} />
+              <Route path="/dramas/:id/edit" element={<DramaForm />} />
+              <Route path="/dramas/:dramaId/episodes" element={<EpisodeManage />} />
+              <Route path="/content-health" element={<ContentHealth />} />
+              <Route path="/trash" element={<Trash />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="genres:manage" />}>
+              <Route path="/genres" element={<Genres />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="actors:manage" />}>
+              <Route path="/actors" element={<Actors />} />
+              <Route path="/actors/:id" element={<ActorDetail />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="media:manage" />}>
+              <Route path="/media" element={<MediaLibrary />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="users:view" />}>
+              <Route path="/users" element={<Users />} />
+              <Route path="/users/:id" element={<UserDetail />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="audit:view" />}>
+              <Route path="/audit" element={<AuditLog />} />
+            </Route>
+            <Route element={<ProtectedRoute permission="analytics:view" />}>
+              <Route path="/analytics/top-content" element={<TopContent />} />
+            </Route>
           </Route>
         </Route>
 
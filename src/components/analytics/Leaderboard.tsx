@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Clapperboard, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { analyticsService } from '../../services/analytics';
+import type { LeaderboardWindow, TopDrama, TopEpisode } from '../../types';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Skeleton } from '../ui/Skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import { cn } from '../../utils/cn';
+
+interface LeaderboardProps {
+    range: LeaderboardWindow;
+    limit?: number;
+}
+
+export const LeaderboardWindowSelect = ({ value, onChange, className }: {
+    value: LeaderboardWindow;
+    onChange: (value: LeaderboardWindow) => void;
+    className?: string;
+}) => (
+    <Select
+        className={cn('w-[150px]', className)}
+        aria-label="Window"
+        value={value}
+        onChange={(e) => onChange(e.target.value as LeaderboardWindow)}
+        options={[
+            { label: 'Last 7 days', value: '7d' },
+            { label: 'Last 30 days', value: '30d' },
+            { label: 'Last 90 days', value: '90d' },
+            { label: 'All time', value: 'all' },
+        ]}
+    />
+);
+
+const RankCell = ({ rank }: { rank: number }) => (
+    <TableCell className="w-12">
+        <span className={cn(
+            'inline-flex h-6 w-6 items-center justify-center rounded-full text-xs font-bold',
+            rank <= 3 ? 'bg-primary-100 text-primary-700' : 'bg-gray-100 text-gray-600'
+        )}>
+            {rank}
+        </span>
+    </TableCell>
+);
+
+const LoadingRows = ({ columns }: { columns: number }) => (
+    <>
+        {Array.from({ length: 5 }).map((_, i) => (
+            <TableRow key={i}>
+                {Array.from({ length: columns }).map((_, j) => (
+                    <TableCell key={j}><Skeleton className="h-4 w-full max-w-[12rem]" /></TableCell>
+                ))}
+            </TableRow>
+        ))}
+    </>
+);
+
+export const TopDramasTable = ({ range, limit = 10 }: LeaderboardProps) => {
+    const [dramas, setDramas] = useState<TopDrama[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchTopDramas = async () => {
+            setIsLoading(true);
+            try {
+                setDramas(await analyticsService.getTopDramas({ window: range, limit }));
+            } catch (error) {
+                console.error('Failed to fetch top dramas', error);
+                toast.error('Failed to fetch top dramas');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchTopDramas();
+    }, [range, limit]);
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Drama</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {isLoading ? (
+                    <LoadingRows columns={4} />
+                ) : dramas.length === 0 ? (
+                    <TableRow><TableCell colSpan={4} className="text-center py-8 text-gray-500">No views recorded in this window.</TableCell></TableRow>
+                ) : (
+                    dramas.map((drama, index) => (
+                        <TableRow key={drama.id}>
+                            <RankCell rank={index + 1} />
+                            <TableCell>
+                                <div className="flex items-center gap-3">
+                                    <img
+                                        src={drama.poster_url}
+                                        alt={drama.title}
+                                        className="h-12 w-9 rounded object-cover bg-gray-100"
+                                        onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/36x48?text=No+Img' }}
+                                    />
+                                    <Link to={`/dramas/${drama.id}/edit`} className="font-medium hover:text-primary-600">
+                                        {drama.title}
+                                    </Link>
+                                </div>
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{drama.views.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                                <div className="flex justify-end gap-2">
+                                    <Link to={`/dramas/${drama.id}/episodes`}>
+                                        <Button size="sm" variant="ghost" title="Manage Seasons & Episodes">
+                                            <Clapperboard className="h-4 w-4" />
+                                        </Button>
+                                    </Link>
+                                    <Link to={`/dramas/${drama.id}/edit`}>
+                                        <Button size="sm" variant="outline" title="Edit">
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                    </Link>
+                                </div>
+                            </TableCell>
+                        </TableRow>
+                    ))
+                )}
+            </TableBody>
+        </Table>
+    );
+};
+
+export const TopEpisodesTable = ({ range, limit = 10 }: LeaderboardProps) => {
+    const [episodes, setEpisodes] = useState<TopEpisode[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchTopEpisodes = async () => {
+            setIsLoading(true);
+            try {
+                setEpisodes(await analyticsService.getTopEpisodes({ window: range, limit }));
+            } catch (error) {
+                console.error('Failed to fetch top episodes', error);
+                toast.error('Failed to fetch top episodes');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchTopEpisodes();
+    }, [range, limit]);
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Episode</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {isLoading ? (
+                    <LoadingRows columns={4} />
+                ) : episodes.length === 0 ? (
+                    <TableRow><TableCell colSpan={4} className="text-center py-8 text-gray-500">No views recorded in this window.</TableCell></TableRow>
+                ) : (
+                    episodes.map((episode, index) => (
+                        <TableRow key={episode.id}>
+                            <RankCell rank={index + 1} />
+                            <TableCell>
+                                <div className="font-medium">{episode.title}</div>
+                                <div className="text-xs text-gray-500">
+                                    {episode.drama_title} · S{episode.season_number} E{episode.episode_number}
+                                </div>
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{episode.views.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                                <Link to={`/dramas/${episode.drama_id}/episodes`}>
+                                    <Button size="sm" variant="ghost" title="Manage Seasons & Episodes">
+                                        <Clapperboard className="h-4 w-4" />
+                                    </Button>
+                                </Link>
+                            </TableCell>
+                        </TableRow>
+                    ))
+                )}
+            </TableBody>
+        </Table>
+    );
+};
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { dramaService } from '../../services/drama';
+import type { Drama, DramaRevision } from '../../types';
+import { cn } from '../../utils/cn';
+import { diffRecords } from '../../utils/diff';
+import { getErrorMessage } from '../../utils/errors';
+import { toRevisionRecord } from '../../utils/revisions';
+import { confirmAction } from '../../stores/confirmStore';
+import { Button } from '../ui/Button';
+import { DiffTable } from '../ui/DiffTable';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+
+interface DramaRevisionsDialogProps {
+    dramaId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onRestored: (drama: Drama) => void;
+}
+
+const formatRevisionTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Rendered only while the dialog is open, so revisions are fetched fresh each time
+const RevisionBrowser = ({ dramaId, onRestored }: Pick<DramaRevisionsDialogProps, 'dramaId' | 'onRestored'>) => {
+    const [revisions, setRevisions] = useState<DramaRevision[]>([]);
+    const [current, setCurrent] = useState<Drama | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        const fetchRevisions = async () => {
+            try {
+                const [revisionData, dramaData] = await Promise.all([
+                    dramaService.getRevisions(dramaId),
+                    dramaService.getById(dramaId),
+                ]);
+                setRevisions(revisionData);
+                setCurrent(dramaData);
+                // The newest revision is the current state, so start with the one before it
+                setSelectedId(revisionData[1]?.id ?? revisionData[0]?.id ?? null);
+            } catch (error) {
+                console.error('Failed to fetch revisions', error);
+                toast.error('Failed to load revision history');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchRevisions();
+    }, [dramaId]);
+
+    const selected = revisions.find((revision) => revision.id === selectedId) ?? null;
+    const changes = selected && current ? diffRecords(toRevisionRecord(selected.snapshot), toRevisionRecord(current)) : [];
+
+    const handleRestore = async () => {
+        if (!selected) return;
+        const confirmed = await confirmAction({
+            title: `Restore version ${selected.version}?`,
+            description: 'The current version stays in the history.',
+            impact: { items: [changes.length ? `Changes ${changes.map((change) => change.field).join(', ')}` : 'No fields change'] },
+            confirmLabel: 'Restore',
+            variant: 'primary',
+        });
+        if (!confirmed) return;
+        setIsRestoring(true);
+        try {
+            const restored = await dramaService.restoreRevision(dramaId, selected.id);
+            toast.success(`Restored version ${selected.version}`);
+            onRestored(restored);
+        } catch (error) {
+            console.error('Failed to restore revision', error);
+            toast.error(getErrorMessage(error, 'Failed to restore revision'));
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+        );
+    }
+    if (revisions.length === 0) {
+        return <p className="py-10 text-center text-sm text-gray-500">No revisions have been saved for this drama yet.</p>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-[220px_1fr]">
+            <ul className="max-h-[60vh] space-y-1 overflow-y-auto">
+                {revisions.map((revision, index) => (
+                    <li key={revision.id}>
+                        <button
+                            type="button"
+                            onClick={() => setSelectedId(revision.id)}
+                            className={cn(
+                                'w-full rounded-md px-3 py-2 text-left text-sm',
+                                revision.id === selectedId ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50'
+                            )}
+                        >
+                            <span className="font-medium">Version {revision.version}</span>
+                            {index === 0 && <span className="ml-2 text-xs text-gray-500">(latest)</span>}
+                            <span className="block text-xs text-gray-500">
+                                {formatRevisionTime(revision.created_at)}
+                                {revision.author && ` · ${revision.author.name}`}
+                            </span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {selected && (
+                <div className="min-w-0 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm text-gray-600">
+                            {changes.length === 0
+                                ? 'Identical to the current version.'
+                                : `${changes.length} ${changes.length === 1 ? 'field differs' : 'fields differ'} from the current version.`}
+                        </p>
+                        <Button size="sm" disabled={changes.length === 0} isLoading={isRestoring} onClick={handleRestore}>
+                            {!isRestoring && <RotateCcw className="mr-2 h-4 w-4" />}
+                            Restore Version {selected.version}
+                        </Button>
+                    </div>
+                    <div className="rounded-lg border border-gray-200">
+                        <DiffTable
+                            changes={changes}
+                            beforeLabel={`Version ${selected.version}`}
+                            afterLabel="Current"
+                            emptyMessage="Nothing to restore."
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const DramaRevisionsDialog = ({ dramaId, open, onOpenChange, onRestored }: DramaRevisionsDialogProps) => (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-5xl">
+            <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Revision History
+                </DialogTitle>
+                <DialogDescription>Compare a saved version with the current drama and restore it if needed.</DialogDescription>
+            </DialogHeader>
+            {open && <RevisionBrowser dramaId={dramaId} onRestored={onRestored} />}
+        </DialogContent>
+    </Dialog>
+);
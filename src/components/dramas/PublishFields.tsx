@@ -0,0 +1,36 @@
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import type { PublishState } from '../../types';
+import { Input } from '../ui/Input';
+import { toDateTimeInput } from '../../utils/date';
+
+interface PublishFieldsProps {
+    state: PublishState;
+    stateField: UseFormRegisterReturn;
+    publishAtField: UseFormRegisterReturn;
+    error?: string;
+}
+
+export const PublishFields = ({ state, stateField, publishAtField, error }: PublishFieldsProps) => (
+    <div className="grid grid-cols-2 gap-4">
+        <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Visibility</label>
+            <select
+                className="flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                {...stateField}
+            >
+                <option value="draft">Draft</option>
+                <option value="scheduled">Scheduled</option>
+                <option value="published">Published</option>
+            </select>
+        </div>
+        {state === 'scheduled' && (
+            <Input
+                label={`Goes live at (${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+                type="datetime-local"
+                min={toDateTimeInput(new Date())}
+                error={error}
+                {...publishAtField}
+            />
+        )}
+    </div>
+);
@@ -0,0 +1,27 @@
+import { CalendarClock } from 'lucide-react';
+import type { PublishState } from '../../types';
+import { cn } from '../../utils/cn';
+import { getPublishState, PUBLISH_STATE_LABELS } from '../../utils/publishing';
+
+const stateStyles: Record<PublishState, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    scheduled: 'bg-amber-100 text-amber-800',
+    published: 'bg-green-100 text-green-800',
+};
+
+export const PublishStateBadge = ({ item }: { item: { publish_state?: PublishState; publish_at?: string | null } }) => {
+    const state = getPublishState(item);
+    const publishAt = state === 'scheduled' && item.publish_at ? new Date(item.publish_at) : null;
+
+    return (
+        <span
+            className={cn('inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium whitespace-nowrap', stateStyles[state])}
+            title={publishAt ? `Goes live ${publishAt.toLocaleString()}` : undefined}
+        >
+            {publishAt && <CalendarClock className="h-3 w-3" />}
+            {publishAt
+                ? publishAt.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                : PUBLISH_STATE_LABELS[state]}
+        </span>
+    );
+};
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { z } from 'zod';
+import { ImageOff, Images } from 'lucide-react';
+import { toast } from 'sonner';
+import { seasonService } from '../../services/episode';
+import type { Season } from '../../types';
+import { seasonSchema } from '../../schemas/season';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { parseDate, toDateInput } from '../../utils/date';
+import { toastWithUndo } from '../../utils/undo';
+import { MediaPickerDialog } from '../media/MediaPickerDialog';
+
+// The number is changed by reordering the season list, not here
+const seasonDetailsSchema = seasonSchema.omit({ season_number: true });
+
+type SeasonDetailsFormData = z.infer<typeof seasonDetailsSchema>;
+
+interface SeasonEditDialogProps {
+    season: Season | null;
+    onOpenChange: (open: boolean) => void;
+    onSaved: (season: Season) => void;
+}
+
+const PosterPreview = ({ url }: { url?: string }) => {
+    const [failedUrl, setFailedUrl] = useState<string | null>(null);
+
+    if (!url || failedUrl === url) {
+        return (
+            <div className="flex aspect-[2/3] w-full flex-col items-center justify-center gap-2 rounded-md bg-gray-100 text-xs text-gray-400">
+                <ImageOff className="h-6 w-6" />
+                {url ? 'Could not load image' : 'No poster'}
+            </div>
+        );
+    }
+    return (
+        <img
+            src={url}
+            alt="Season poster preview"
+            className="aspect-[2/3] w-full rounded-md object-cover bg-gray-100"
+            onError={() => setFailedUrl(url)}
+        />
+    );
+};
+
+export const SeasonEditDialog = ({ season, onOpenChange, onSaved }: SeasonEditDialogProps) => {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
+    const {
+        register,
+        handleSubmit,
+        reset,
+        setValue,
+        control,
+        formState: { errors },
+    } = useForm<SeasonDetailsFormData>({
+        resolver: zodResolver(seasonDetailsSchema),
+    });
+    const posterUrl = useWatch({ control, name: 'poster_url' });
+
+    useEffect(() => {
+        if (season) {
+            reset({
+                title: season.title,
+                synopsis: season.synopsis || '',
+                poster_url: season.poster_url || '',
+                release_date: season.release_date ? toDateInput(parseDate(season.release_date)) : '',
+            });
+        }
+    }, [season, reset]);
+
+    const onSubmit = async (data: SeasonDetailsFormData) => {
+        if (!season) return;
+        setIsSubmitting(true);
+        try {
+            // Emptied fields are sent as null so the API clears them
+            const changes = {
+                title: data.title,
+                synopsis: data.synopsis || null,
+                poster_url: data.poster_url || null,
+                release_date: data.release_date || null,
+            };
+            const updated = await seasonService.update(season.id, changes);
+            const { title, synopsis, poster_url, release_date } = season;
+            toastWithUndo('Season updated', {
+                undo: () => seasonService.update(season.id, {
+                    title,
+                    synopsis: synopsis ?? null,
+                    poster_url: poster_url ?? null,
+                    release_date: release_date ?? null,
+                }),
+                onUndone: () => onSaved(season),
+            });
+            onSaved(updated ?? { ...season, ...changes });
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Failed to update season', error);
+            toast.error('Failed to update season');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!season} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Edit Season {season?.season_number}</DialogTitle>
+                    <DialogDescription>
+                        Give specials and split seasons their own title and artwork.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+                        <div className="space-y-4 sm:col-span-2">
+                            <Input
+                                label="Title"
+                                placeholder="e.g. Season 2 Part 2"
+                                error={errors.title?.message}
+                                {...register('title')}
+                            />
+                            <div className="w-full">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Synopsis</label>
+                                <textarea
+                                    rows={4}
+                                    className="flex w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all"
+                                    placeholder="What happens this season..."
+                                    {...register('synopsis')}
+                                />
+                            </div>
+                            <Input
+                                label="Poster URL"
+                                placeholder="https://example.com/season-poster.jpg"
+                                error={errors.poster_url?.message}
+                                {...register('poster_url')}
+                            />
+                            <Button type="button" size="sm" variant="outline" onClick={() => setIsPickerOpen(true)}>
+                                <Images className="mr-2 h-4 w-4" />
+                                Choose from Library
+                            </Button>
+                            <Input
+                                label="Release Date"
+                                type="date"
+                                error={errors.release_date?.message}
+                                {...register('release_date')}
+                            />
+                        </div>
+                        <div>
+                            <span className="block text-sm font-medium text-gray-700 mb-1">Preview</span>
+                            <PosterPreview url={posterUrl || undefined} />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                        <Button type="submit" isLoading={isSubmitting}>Save Changes</Button>
+                    </DialogFooter>
+                </form>
+                <MediaPickerDialog
+                    open={isPickerOpen}
+                    kind="poster"
+                    onOpenChange={setIsPickerOpen}
+                    onSelect={(asset) => {
+                        setValue('poster_url', asset.url, { shouldValidate: true, shouldDirty: true });
+                        setIsPickerOpen(false);
+                    }}
+                />
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,117 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, VideoOff } from 'lucide-react';
+import { videoService } from '../../services/video';
+import type { EmbedCheckResult } from '../../types';
+import { ALLOWED_VIDEO_HOSTS, detectVideoProvider, isAllowedVideoUrl, toEmbedUrl } from '../../utils/video';
+
+interface VideoPreviewProps {
+    url?: string;
+    // Offered when the URL is a share link that has an embed form
+    onUseEmbedUrl?: (embedUrl: string) => void;
+}
+
+type EmbedCheck =
+    | { url: string; status: 'checking' }
+    | { url: string; status: 'done'; result: EmbedCheckResult }
+    | { url: string; status: 'error' };
+
+const Placeholder = ({ children }: { children: ReactNode }) => (
+    <div className="flex aspect-video w-full flex-col items-center justify-center gap-2 rounded-md bg-gray-100 px-4 text-center text-xs text-gray-400">
+        <VideoOff className="h-6 w-6" />
+        {children}
+    </div>
+);
+
+export const VideoPreview = ({ url = '', onUseEmbedUrl }: VideoPreviewProps) => {
+    const value = url.trim();
+    const isAllowed = isAllowedVideoUrl(value);
+    const provider = detectVideoProvider(value);
+    const embedUrl = isAllowed ? toEmbedUrl(value) : '';
+    const [check, setCheck] = useState<EmbedCheck | null>(null);
+
+    useEffect(() => {
+        if (!embedUrl) return;
+        let isCurrent = true;
+
+        // Debounce while the URL is being typed
+        const timeoutId = setTimeout(async () => {
+            setCheck({ url: embedUrl, status: 'checking' });
+            try {
+                const result = await videoService.checkEmbed(embedUrl);
+                if (isCurrent) setCheck({ url: embedUrl, status: 'done', result });
+            } catch (error) {
+                console.error('Embed check failed', error);
+                if (isCurrent) setCheck({ url: embedUrl, status: 'error' });
+            }
+        }, 500);
+
+        return () => {
+            isCurrent = false;
+            clearTimeout(timeoutId);
+        };
+    }, [embedUrl]);
+
+    if (!value) {
+        return <Placeholder>Enter a video URL to preview it</Placeholder>;
+    }
+    if (!isAllowed) {
+        return <Placeholder>Preview is available for https links from {ALLOWED_VIDEO_HOSTS.join(', ')}</Placeholder>;
+    }
+
+    const current = check?.url === embedUrl ? check : null;
+    const isBlocked = current?.status === 'done' && !current.result.embeddable;
+
+    return (
+        <div className="space-y-2">
+            {isBlocked ? (
+                <Placeholder>This video cannot be played in the apps</Placeholder>
+            ) : (
+                <iframe
+                    key={embedUrl}
+                    src={embedUrl}
+                    title="Video preview"
+                    className="aspect-video w-full rounded-md bg-black"
+                    allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+                    allowFullScreen
+                    referrerPolicy="strict-origin-when-cross-origin"
+                />
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 font-medium text-gray-700">
+                    {provider?.name}
+                </span>
+                {!current || current.status === 'checking' ? (
+                    <span className="inline-flex items-center gap-1 text-gray-500">
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        Checking embed...
+                    </span>
+                ) : current.status === 'error' ? (
+                    <span className="inline-flex items-center gap-1 text-yellow-700">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        Could not verify this URL
+                    </span>
+                ) : current.result.embeddable ? (
+                    <span className="inline-flex items-center gap-1 text-green-700">
+                        <CheckCircle2 className="h-3.5 w-3.5" />
+                        Embeddable
+                    </span>
+                ) : (
+                    <span className="inline-flex items-center gap-1 text-red-600">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        Not embeddable{current.result.reason ? `: ${current.result.reason}` : current.result.status ? ` (HTTP ${current.result.status})` : ''}
+                    </span>
+                )}
+            </div>
+
+            {onUseEmbedUrl && embedUrl !== value && (
+                <p className="text-xs text-gray-500">
+                    This is a share link; the apps need the player URL.{' '}
+                    <button type="button" className="font-medium text-primary-600 hover:underline" onClick={() => onUseEmbedUrl(embedUrl)}>
+                        Use {embedUrl}
+                    </button>
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,34 @@
+import { ExternalLink } from 'lucide-react';
+import type { Episode } from '../../types';
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { VideoPreview } from './VideoPreview';
+
+interface VideoPreviewDialogProps {
+    episode: Episode | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const VideoPreviewDialog = ({ episode, onOpenChange }: VideoPreviewDialogProps) => (
+    <Dialog open={!!episode} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl">
+            <DialogHeader>
+                <DialogTitle>Episode {episode?.episode_number}: {episode?.title}</DialogTitle>
+                <DialogDescription className="truncate">{episode?.video_url || 'No video URL'}</DialogDescription>
+            </DialogHeader>
+            {/* Unmounted on close so the player stops */}
+            {episode && <VideoPreview url={episode.video_url} />}
+            <DialogFooter>
+                {episode?.video_url && (
+                    <a href={episode.video_url} target="_blank" rel="noreferrer">
+                        <Button type="button" variant="outline">
+                            <ExternalLink className="mr-2 h-4 w-4" />
+                            Open in New Tab
+                        </Button>
+                    </a>
+                )}
+                <Button type="button" onClick={() => onOpenChange(false)}>Close</Button>
+            </DialogFooter>
+        </DialogContent>
+    </Dialog>
+);
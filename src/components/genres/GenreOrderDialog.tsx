@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { GripVertical, Loader2, Star } from 'lucide-react';
+import { toast } from 'sonner';
+import { genreService } from '../../services/genre';
+import type { Genre } from '../../types';
+import { useDragReorder } from '../../hooks/useDragReorder';
+import { cn } from '../../utils/cn';
+import { byGenrePosition } from '../../utils/genres';
+import { fetchAllPages } from '../../utils/pagination';
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+
+interface GenreOrderDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSaved: () => void;
+}
+
+const FETCH_LIMIT = 100;
+
+// Lives inside the dialog content, so unsaved moves are dropped when the dialog closes
+const GenreOrderEditor = ({ onOpenChange, onSaved }: Omit<GenreOrderDialogProps, 'open'>) => {
+    const [genres, setGenres] = useState<Genre[] | null>(null);
+    const [isDirty, setIsDirty] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        let isCurrent = true;
+        fetchAllPages<Genre>((p) => genreService.getAll({ page: p, limit: FETCH_LIMIT }), { limit: FETCH_LIMIT })
+            .then((data) => isCurrent && setGenres([...data].sort(byGenrePosition)))
+            .catch((error) => {
+                console.error('Failed to load genres', error);
+                toast.error('Failed to load genres');
+                if (isCurrent) setGenres([]);
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, []);
+
+    const { dragIndex, overIndex, getRowProps, getHandleProps } = useDragReorder(genres ?? [], (next) => {
+        setGenres(next);
+        setIsDirty(true);
+    });
+
+    const handleSave = async () => {
+        if (!genres) return;
+        setIsSaving(true);
+        try {
+            await genreService.reorder(genres.map(({ id }, index) => ({ id, position: index + 1 })));
+            toast.success('Genre order saved');
+            onSaved();
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Failed to save genre order', error);
+            toast.error('Failed to save genre order');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <>
+            {!genres ? (
+                <div className="flex justify-center py-10">
+                    <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                </div>
+            ) : genres.length === 0 ? (
+                <p className="py-10 text-center text-sm text-gray-500">No genres yet.</p>
+            ) : (
+                <ol className="max-h-[60vh] divide-y divide-gray-100 overflow-y-auto rounded-md border border-gray-200">
+                    {genres.map((genre, index) => (
+                        <li
+                            key={genre.id}
+                            {...getRowProps(index)}
+                            className={cn(
+                                'flex items-center gap-3 bg-white px-3 py-2 text-sm',
+                                dragIndex === index && 'opacity-50',
+                                overIndex === index && dragIndex !== index && 'ring-2 ring-inset ring-primary-300'
+                            )}
+                        >
+                            <span {...getHandleProps(index)} className="cursor-grab text-gray-300 hover:text-gray-500 focus:outline-none focus:text-primary-600">
+                                <GripVertical className="h-4 w-4" />
+                            </span>
+                            <span className="w-6 text-right text-xs text-gray-400">{index + 1}</span>
+                            <span className="flex-1 truncate font-medium text-gray-900">{genre.name}</span>
+                            {genre.is_featured && (
+                                <span className="inline-flex items-center gap-1 text-xs text-yellow-700">
+                                    <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-500" />
+                                    Featured
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button type="button" disabled={!isDirty} isLoading={isSaving} onClick={handleSave}>Save Order</Button>
+            </DialogFooter>
+        </>
+    );
+};
+
+export const GenreOrderDialog = ({ open, onOpenChange, onSaved }: GenreOrderDialogProps) => (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg">
+            <DialogHeader>
+                <DialogTitle>Genre Rail Order</DialogTitle>
+                <DialogDescription>Drag genres into the order the app shows its genre rails. Featured genres also appear on the home screen.</DialogDescription>
+            </DialogHeader>
+            {open && <GenreOrderEditor onOpenChange={onOpenChange} onSaved={onSaved} />}
+        </DialogContent>
+    </Dialog>
+);
@@ -1,4 +1,5 @@
 import { useAuthStore } from '../../stores/authStore';
+import { getRoleLabel } from '../../utils/permissions';
 
 export const Header = () => {
     const user = useAuthStore((state) => state.user);
@@ -17,7 +18,7 @@ export const Header = () => {
                     </div>
                     <div className="hidden md:block">
                         <p className="text-sm font-medium text-gray-700">{user?.name || 'Admin'}</p>
-                        <p className="text-xs text-gray-500">{user?.role || 'Administrator'}</p>
+                        <p className="text-xs text-gray-500">{user?.role ? getRoleLabel(user.role) : 'Administrator'}</p>
                     </div>
                 </div>
             </div>
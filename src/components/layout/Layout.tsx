@@ -1,6 +1,7 @@
 import { Outlet } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { SessionExpiryDialog } from './SessionExpiryDialog';
 
 export const Layout = () => {
     return (
@@ -12,6 +13,7 @@ export const Layout = () => {
                     <Outlet />
                 </main>
             </div>
+            <SessionExpiryDialog />
         </div>
     );
 };
@@ -1,12 +1,29 @@
 import { Navigate, Outlet } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
+import { hasPermission, type Permission } from '../../utils/permissions';
 
-export const ProtectedRoute = () => {
+interface ProtectedRouteProps {
+    permission?: Permission;
+}
+
+export const ProtectedRoute = ({ permission }: ProtectedRouteProps) => {
     const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+    const role = useAuthStore((state) => state.user?.role);
 
     if (!isAuthenticated) {
         return <Navigate to="/login" replace />;
     }
 
+    if (permission && !hasPermission(role, permission)) {
+        return (
+            <div className="flex flex-col items-center justify-center gap-2 py-24 text-center">
+                <ShieldAlert className="h-10 w-10 text-gray-400" />
+                <h2 className="text-lg font-semibold text-gray-800">Access denied</h2>
+                <p className="text-sm text-gray-500">Your role does not have permission to view this page.</p>
+            </div>
+        );
+    }
+
     return <Outlet />;
 };
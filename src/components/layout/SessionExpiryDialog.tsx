@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Clock } from 'lucide-react';
+import { useAuthStore } from '../../stores/authStore';
+import { refreshSession } from '../../services/api';
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+
+// Refresh this long before the access token expires
+const REFRESH_LEAD_MS = 60 * 1000;
+
+const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return `${minutes}:${seconds}`;
+};
+
+// Silently refreshes the session ahead of expiry. If that fails, warns the user
+// with a countdown so unsaved work can still be submitted before logging out.
+export const SessionExpiryDialog = () => {
+    const expiresAt = useAuthStore((state) => state.expiresAt);
+    const logout = useAuthStore((state) => state.logout);
+    const [isWarningOpen, setIsWarningOpen] = useState(false);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Schedule a silent refresh shortly before the token expires
+    useEffect(() => {
+        if (!expiresAt) return;
+
+        const timeoutId = setTimeout(async () => {
+            try {
+                await refreshSession();
+                setIsWarningOpen(false);
+            } catch (error) {
+                console.error('Silent session refresh failed', error);
+                setNow(Date.now());
+                setIsWarningOpen(true);
+            }
+        }, Math.max(0, expiresAt - Date.now() - REFRESH_LEAD_MS));
+
+        return () => clearTimeout(timeoutId);
+    }, [expiresAt]);
+
+    // Count down while the warning is shown and log out once the token is gone
+    useEffect(() => {
+        if (!isWarningOpen || !expiresAt) return;
+
+        const intervalId = setInterval(() => {
+            const current = Date.now();
+            setNow(current);
+            if (current >= expiresAt) {
+                setIsWarningOpen(false);
+                logout();
+                toast.error('Your session has expired. Please sign in again.');
+            }
+        }, 1000);
+
+        return () => clearInterval(intervalId);
+    }, [isWarningOpen, expiresAt, logout]);
+
+    const handleStaySignedIn = async () => {
+        setIsRefreshing(true);
+        try {
+            await refreshSession();
+            setIsWarningOpen(false);
+            toast.success('Session extended');
+        } catch (error) {
+            console.error('Session refresh failed', error);
+            toast.error('Could not extend your session. Save your work and sign in again.');
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    if (!expiresAt) return null;
+
+    return (
+        <Dialog open={isWarningOpen} onOpenChange={setIsWarningOpen}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Clock className="h-5 w-5 text-orange-500" />
+                        Session expiring
+                    </DialogTitle>
+                    <DialogDescription>
+                        Your session will end in <span className="font-semibold text-gray-900">{formatCountdown(expiresAt - now)}</span>.
+                        Save any unsaved changes now, or try to stay signed in.
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                    <Button variant="outline" onClick={logout}>Log out</Button>
+                    <Button onClick={handleStaySignedIn} isLoading={isRefreshing}>Stay signed in</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
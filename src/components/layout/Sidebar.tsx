@@ -6,21 +6,37 @@ import {
     Users,
     Tags,
     UserSquare2,
-    LogOut
+    Trophy,
+    CalendarDays,
+    HeartPulse,
+    Images,
+    ScrollText,
+    Trash2,
+    LogOut,
+    type LucideIcon
 } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
+import { usePermissions } from '../../hooks/usePermission';
+import type { Permission } from '../../utils/permissions';
 
-const menuItems = [
-    { icon: LayoutDashboard, label: 'Dashboard', path: '/' },
-    { icon: Film, label: 'Dramas', path: '/dramas' },
-    { icon: Tags, label: 'Genres', path: '/genres' },
-    { icon: UserSquare2, label: 'Actors', path: '/actors' },
-    { icon: Users, label: 'Users', path: '/users' },
+const menuItems: { icon: LucideIcon; label: string; path: string; permission: Permission }[] = [
+    { icon: LayoutDashboard, label: 'Dashboard', path: '/', permission: 'dashboard:view' },
+    { icon: Film, label: 'Dramas', path: '/dramas', permission: 'dramas:view' },
+    { icon: CalendarDays, label: 'Release Calendar', path: '/releases', permission: 'dramas:view' },
+    { icon: HeartPulse, label: 'Content Health', path: '/content-health', permission: 'dramas:edit' },
+    { icon: Tags, label: 'Genres', path: '/genres', permission: 'genres:manage' },
+    { icon: UserSquare2, label: 'Actors', path: '/actors', permission: 'actors:manage' },
+    { icon: Images, label: 'Media Library', path: '/media', permission: 'media:manage' },
+    { icon: Users, label: 'Users', path: '/users', permission: 'users:view' },
+    { icon: Trophy, label: 'Top Content', path: '/analytics/top-content', permission: 'analytics:view' },
+    { icon: ScrollText, label: 'Audit Log', path: '/audit', permission: 'audit:view' },
+    { icon: Trash2, label: 'Trash', path: '/trash', permission: 'dramas:edit' },
 ];
 
 export const Sidebar = () => {
     const location = useLocation();
     const logout = useAuthStore((state) => state.logout);
+    const can = usePermissions();
 
     return (
         <aside className="fixed left-0 top-0 z-40 h-screen w-64 border-r border-gray-200 bg-white">
@@ -29,7 +45,7 @@ export const Sidebar = () => {
             </div>
 
             <nav className="flex-1 space-y-1 px-3 py-4">
-                {menuItems.map((item) => {
+                {menuItems.filter((item) => can(item.permission)).map((item) => {
                     const Icon = item.icon;
                     const isActive = location.pathname === item.path || (item.path !== '/' && location.pathname.startsWith(item.path));
 
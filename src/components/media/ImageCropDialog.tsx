@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { toast } from 'sonner';
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { drawCrop, exportCrop, getCropArea, loadImageFile, type ImagePreset } from '../../utils/image';
+
+interface ImageCropDialogProps {
+    file: File | null;
+    preset: ImagePreset;
+    onCancel: () => void;
+    onConfirm: (image: Blob) => void;
+}
+
+const PREVIEW_MAX = 360; // px along the longer side
+
+const MAX_ZOOM = 3;
+
+type CropEditorProps = Omit<ImageCropDialogProps, 'file'> & { file: File };
+
+// Keyed by file in the dialog, so every image starts with a fresh crop
+const CropEditor = ({ file, preset, onCancel, onConfirm }: CropEditorProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const [loadError, setLoadError] = useState(false);
+    const [zoom, setZoom] = useState(1);
+    const [center, setCenter] = useState<{ x: number; y: number } | undefined>(undefined);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const previewWidth = Math.round(preset.aspect >= 1 ? PREVIEW_MAX : PREVIEW_MAX * preset.aspect);
+    const previewHeight = Math.round(previewWidth / preset.aspect);
+    const crop = image ? getCropArea(image, preset.aspect, zoom, center) : null;
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadImageFile(file)
+            .then((loaded) => isCurrent && setImage(loaded))
+            .catch(() => isCurrent && setLoadError(true));
+        return () => {
+            isCurrent = false;
+        };
+    }, [file]);
+
+    useEffect(() => {
+        if (canvasRef.current && image && crop) drawCrop(canvasRef.current, image, crop);
+    });
+
+    const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = { x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+        if (!dragRef.current || !crop) return;
+        // Dragging moves the picture, so the crop moves the other way
+        const scale = crop.width / previewWidth;
+        const dx = (event.clientX - dragRef.current.x) * scale;
+        const dy = (event.clientY - dragRef.current.y) * scale;
+        dragRef.current = { x: event.clientX, y: event.clientY };
+        setCenter({ x: crop.x + crop.width / 2 - dx, y: crop.y + crop.height / 2 - dy });
+    };
+
+    const handleConfirm = async () => {
+        if (!image || !crop) return;
+        setIsExporting(true);
+        try {
+            onConfirm(await exportCrop(image, crop, preset));
+        } catch (error) {
+            console.error('Failed to crop image', error);
+            toast.error('Failed to process image');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (loadError) {
+        return (
+            <>
+                <p className="text-sm text-red-600">Could not read this image. Try a JPEG, PNG or WebP file.</p>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={onCancel}>Close</Button>
+                </DialogFooter>
+            </>
+        );
+    }
+
+    return (
+        <>
+            <div className="flex justify-center">
+                <canvas
+                    ref={canvasRef}
+                    width={previewWidth * 2} // 2x for sharp previews on high-DPI screens
+                    height={previewHeight * 2}
+                    style={{ width: previewWidth, height: previewHeight }}
+                    className="cursor-move touch-none rounded-md bg-gray-100"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => (dragRef.current = null)}
+                    onPointerCancel={() => (dragRef.current = null)}
+                />
+            </div>
+
+            <label className="flex items-center gap-3 text-sm text-gray-700">
+                Zoom
+                <input
+                    type="range"
+                    min={1}
+                    max={MAX_ZOOM}
+                    step={0.01}
+                    value={zoom}
+                    disabled={!image}
+                    onChange={(e) => setZoom(Number(e.target.value))}
+                    className="flex-1 accent-primary-600"
+                />
+            </label>
+            {image && crop && crop.width < preset.width && (
+                <p className="text-xs text-yellow-700">
+                    The selected area is {Math.round(crop.width)}px wide, smaller than the recommended {preset.width}px.
+                </p>
+            )}
+
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+                <Button type="button" disabled={!image} isLoading={isExporting} onClick={handleConfirm}>Crop &amp; Upload</Button>
+            </DialogFooter>
+        </>
+    );
+};
+
+export const ImageCropDialog = ({ file, preset, onCancel, onConfirm }: ImageCropDialogProps) => (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+        <DialogContent>
+            <DialogHeader>
+                <DialogTitle>Crop Image</DialogTitle>
+                <DialogDescription>
+                    {preset.label}, saved at up to {preset.width}×{preset.height}px. Drag to reposition.
+                </DialogDescription>
+            </DialogHeader>
+            {file && (
+                <CropEditor
+                    key={`${file.name}-${file.size}-${file.lastModified}`}
+                    file={file}
+                    preset={preset}
+                    onCancel={onCancel}
+                    onConfirm={onConfirm}
+                />
+            )}
+        </DialogContent>
+    </Dialog>
+);
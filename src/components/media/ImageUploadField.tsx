@@ -0,0 +1,186 @@
+import { useRef, useState, type DragEvent } from 'react';
+import { useController, type Control, type FieldPath, type FieldValues } from 'react-hook-form';
+import { ImageOff, Trash2, UploadCloud } from 'lucide-react';
+import { toast } from 'sonner';
+import { mediaService } from '../../services/media';
+import type { MediaKind } from '../../types';
+import { cn } from '../../utils/cn';
+import { getErrorMessage } from '../../utils/errors';
+import { ACCEPTED_IMAGE_TYPES, croppedFilename, IMAGE_PRESETS, MAX_IMAGE_BYTES } from '../../utils/image';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { ImageCropDialog } from './ImageCropDialog';
+import { MediaPickerDialog } from './MediaPickerDialog';
+
+interface ImageUploadFieldProps<T extends FieldValues> {
+    control: Control<T>;
+    name: FieldPath<T>; // a string field holding the image URL
+    label: string;
+    preset: MediaKind;
+}
+
+const previewWidths: Record<MediaKind, string> = {
+    poster: 'w-28',
+    thumbnail: 'w-48',
+    photo: 'w-24',
+};
+
+const Preview = ({ url, preset }: { url: string; preset: MediaKind }) => {
+    const [failedUrl, setFailedUrl] = useState<string | null>(null);
+    const style = { aspectRatio: IMAGE_PRESETS[preset].aspect };
+
+    if (!url || failedUrl === url) {
+        return (
+            <div style={style} className={cn('flex flex-shrink-0 flex-col items-center justify-center gap-1 rounded-md bg-gray-100 text-xs text-gray-400', previewWidths[preset])}>
+                <ImageOff className="h-5 w-5" />
+                {url ? 'Could not load' : 'No image'}
+            </div>
+        );
+    }
+    return (
+        <img
+            src={url}
+            alt=""
+            style={style}
+            className={cn('flex-shrink-0 rounded-md bg-gray-100 object-cover', previewWidths[preset])}
+            onError={() => setFailedUrl(url)}
+        />
+    );
+};
+
+// Drop or pick an image, crop it to the preset, upload it and store the URL in the form.
+// Existing uploads can be reused from the library, and pasting a URL still works.
+export const ImageUploadField = <T extends FieldValues>({ control, name, label, preset }: ImageUploadFieldProps<T>) => {
+    const { field, fieldState } = useController({ control, name });
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [pendingFile, setPendingFile] = useState<File | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+    const value: string = field.value ?? '';
+    const isUploading = progress !== null;
+
+    const selectFile = (file?: File) => {
+        if (!file) return;
+        if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+            toast.error('Choose a JPEG, PNG or WebP image');
+            return;
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+            toast.error(`Images must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+            return;
+        }
+        setPendingFile(file);
+    };
+
+    const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        if (!isUploading) selectFile(event.dataTransfer.files[0]);
+    };
+
+    const handleCropped = async (image: Blob) => {
+        const filename = croppedFilename(pendingFile?.name ?? 'image');
+        setPendingFile(null);
+        setProgress(0);
+        try {
+            const asset = await mediaService.upload(image, { filename, kind: preset }, setProgress);
+            field.onChange(asset.url);
+            toast.success('Image uploaded');
+        } catch (error) {
+            console.error('Image upload failed', error);
+            toast.error(getErrorMessage(error, 'Image upload failed'));
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <div className="flex gap-4">
+                <Preview url={value} preset={preset} />
+                <div className="min-w-0 flex-1 space-y-2">
+                    <div
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            setIsDragging(true);
+                        }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={handleDrop}
+                        className={cn(
+                            'flex flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed px-4 py-4 text-center text-sm transition-colors',
+                            isDragging ? 'border-primary-500 bg-primary-50' : 'border-gray-300'
+                        )}
+                    >
+                        {isUploading ? (
+                            <div className="w-full space-y-1">
+                                <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+                                    <div className="h-full bg-primary-600 transition-all" style={{ width: `${progress}%` }} />
+                                </div>
+                                <p className="text-xs text-gray-500">Uploading... {progress}%</p>
+                            </div>
+                        ) : (
+                            <>
+                                <UploadCloud className="h-5 w-5 text-gray-400" />
+                                <p className="text-gray-600">
+                                    Drop an image,{' '}
+                                    <button type="button" className="font-medium text-primary-600 hover:underline" onClick={() => inputRef.current?.click()}>
+                                        browse
+                                    </button>
+                                    {' '}or{' '}
+                                    <button type="button" className="font-medium text-primary-600 hover:underline" onClick={() => setIsPickerOpen(true)}>
+                                        choose from the library
+                                    </button>
+                                </p>
+                                <p className="text-xs text-gray-400">{IMAGE_PRESETS[preset].label}, JPEG, PNG or WebP</p>
+                            </>
+                        )}
+                        <input
+                            ref={inputRef}
+                            type="file"
+                            accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                            className="hidden"
+                            onChange={(e) => {
+                                selectFile(e.target.files?.[0]);
+                                e.target.value = ''; // allow picking the same file again
+                            }}
+                        />
+                    </div>
+                    <div className="flex items-start gap-2">
+                        <Input
+                            placeholder="or paste an image URL"
+                            value={value}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            onBlur={field.onBlur}
+                            disabled={isUploading}
+                            error={fieldState.error?.message}
+                        />
+                        {value && (
+                            <Button type="button" variant="ghost" size="icon" title="Remove image" disabled={isUploading} onClick={() => field.onChange('')}>
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <ImageCropDialog
+                file={pendingFile}
+                preset={IMAGE_PRESETS[preset]}
+                onCancel={() => setPendingFile(null)}
+                onConfirm={handleCropped}
+            />
+            <MediaPickerDialog
+                open={isPickerOpen}
+                kind={preset}
+                onOpenChange={setIsPickerOpen}
+                onSelect={(asset) => {
+                    field.onChange(asset.url);
+                    setIsPickerOpen(false);
+                }}
+            />
+        </div>
+    );
+};
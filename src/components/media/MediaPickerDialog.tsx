@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Check, Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { mediaService } from '../../services/media';
+import type { MediaAsset, MediaKind } from '../../types';
+import { cn } from '../../utils/cn';
+import { IMAGE_PRESETS } from '../../utils/image';
+import { describeMediaUsage, MEDIA_KIND_LABELS } from '../../utils/media';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+
+interface MediaPickerDialogProps {
+    open: boolean;
+    kind: MediaKind;
+    onOpenChange: (open: boolean) => void;
+    onSelect: (asset: MediaAsset) => void;
+}
+
+const PAGE_SIZE = 24;
+
+// Lives inside the dialog content, so it starts over every time the dialog opens
+const MediaPicker = ({ kind, onOpenChange, onSelect }: Omit<MediaPickerDialogProps, 'open'>) => {
+    const [search, setSearch] = useState('');
+    const [assets, setAssets] = useState<MediaAsset[]>([]);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selected, setSelected] = useState<MediaAsset | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        const fetchAssets = async () => {
+            setIsLoading(true);
+            try {
+                const data = await mediaService.getAll({ page, limit: PAGE_SIZE, search: search || undefined, kind });
+                if (!isCurrent) return;
+                setAssets((current) => (page === 1 ? data.items || [] : [...current, ...(data.items || [])]));
+                setTotalPages(data.total_pages || 1);
+            } catch (error) {
+                console.error('Failed to fetch media', error);
+                toast.error('Failed to load media library');
+            } finally {
+                if (isCurrent) setIsLoading(false);
+            }
+        };
+
+        // Debounce search
+        const timeoutId = setTimeout(fetchAssets, 300);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timeoutId);
+        };
+    }, [search, page, kind]);
+
+    const handleSearch = (value: string) => {
+        setSearch(value);
+        setPage(1);
+    };
+
+    return (
+        <>
+            <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Input
+                    placeholder="Search by file name..."
+                    className="pl-9"
+                    value={search}
+                    onChange={(e) => handleSearch(e.target.value)}
+                />
+            </div>
+
+            <div className="max-h-[55vh] overflow-y-auto">
+                {!isLoading && assets.length === 0 ? (
+                    <p className="py-10 text-center text-sm text-gray-500">No {MEDIA_KIND_LABELS[kind].toLowerCase()} images found.</p>
+                ) : (
+                    <div className="grid grid-cols-3 gap-3 sm:grid-cols-4">
+                        {assets.map((asset) => (
+                            <button
+                                key={asset.id}
+                                type="button"
+                                title={`${asset.filename} · ${describeMediaUsage(asset)}`}
+                                onClick={() => setSelected(asset)}
+                                onDoubleClick={() => onSelect(asset)}
+                                className={cn(
+                                    'relative overflow-hidden rounded-md border-2 text-left focus:outline-none',
+                                    selected?.id === asset.id ? 'border-primary-600' : 'border-transparent hover:border-gray-300'
+                                )}
+                            >
+                                <img
+                                    src={asset.url}
+                                    alt={asset.filename}
+                                    loading="lazy"
+                                    style={{ aspectRatio: IMAGE_PRESETS[kind].aspect }}
+                                    className="w-full bg-gray-100 object-cover"
+                                />
+                                <span className="block truncate px-1 py-0.5 text-xs text-gray-600">{asset.filename}</span>
+                                {selected?.id === asset.id && (
+                                    <span className="absolute right-1 top-1 rounded-full bg-primary-600 p-0.5 text-white">
+                                        <Check className="h-3 w-3" />
+                                    </span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {isLoading ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                    </div>
+                ) : page < totalPages && (
+                    <div className="flex justify-center pt-4">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setPage((p) => p + 1)}>Load More</Button>
+                    </div>
+                )}
+            </div>
+
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button type="button" disabled={!selected} onClick={() => selected && onSelect(selected)}>Use Image</Button>
+            </DialogFooter>
+        </>
+    );
+};
+
+export const MediaPickerDialog = ({ open, kind, onOpenChange, onSelect }: MediaPickerDialogProps) => (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl">
+            <DialogHeader>
+                <DialogTitle>Choose from Library</DialogTitle>
+                <DialogDescription>Reuse an uploaded {MEDIA_KIND_LABELS[kind].toLowerCase()}. Double-click to pick it straight away.</DialogDescription>
+            </DialogHeader>
+            {open && <MediaPicker kind={kind} onOpenChange={onOpenChange} onSelect={onSelect} />}
+        </DialogContent>
+    </Dialog>
+);
@@ -0,0 +1,41 @@
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './Dialog';
+
+export interface BulkFailureReport {
+    title: string;
+    total: number;
+    failures: { label: string; error: string }[];
+}
+
+interface BulkFailureDialogProps {
+    report: BulkFailureReport | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const BulkFailureDialog = ({ report, onOpenChange }: BulkFailureDialogProps) => (
+    <Dialog open={!!report} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-xl">
+            <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-orange-500" />
+                    {report?.title}
+                </DialogTitle>
+                <DialogDescription>
+                    {report && `${report.failures.length} of ${report.total} items failed. The rest were processed.`}
+                </DialogDescription>
+            </DialogHeader>
+            <ul className="max-h-[50vh] divide-y overflow-y-auto rounded-md border border-gray-200">
+                {report?.failures.map((failure, index) => (
+                    <li key={index} className="px-3 py-2">
+                        <p className="text-sm font-medium text-gray-900">{failure.label}</p>
+                        <p className="text-xs text-red-600">{failure.error}</p>
+                    </li>
+                ))}
+            </ul>
+            <DialogFooter>
+                <Button onClick={() => onOpenChange(false)}>Close</Button>
+            </DialogFooter>
+        </DialogContent>
+    </Dialog>
+);
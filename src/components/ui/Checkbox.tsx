@@ -0,0 +1,34 @@
+import { type InputHTMLAttributes, forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { cn } from '../../utils/cn';
+
+interface CheckboxProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type'> {
+    indeterminate?: boolean;
+}
+
+// The explicit role lets Table cells pick up their [role=checkbox] styling
+export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
+    ({ className, indeterminate = false, ...props }, ref) => {
+        const innerRef = useRef<HTMLInputElement>(null);
+        useImperativeHandle(ref, () => innerRef.current as HTMLInputElement);
+
+        useEffect(() => {
+            if (innerRef.current) innerRef.current.indeterminate = indeterminate;
+        }, [indeterminate]);
+
+        return (
+            <input
+                ref={innerRef}
+                type="checkbox"
+                role="checkbox"
+                aria-checked={indeterminate ? 'mixed' : props.checked}
+                className={cn(
+                    'h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50',
+                    className
+                )}
+                {...props}
+            />
+        );
+    }
+);
+
+Checkbox.displayName = 'Checkbox';
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './Dialog';
+import { useConfirmStore, type ConfirmImpact } from '../../stores/confirmStore';
+import { cn } from '../../utils/cn';
+
+type ImpactState =
+    | { status: 'loading' }
+    | { status: 'ready'; impact: ConfirmImpact | null }
+    | { status: 'error' };
+
+const ConfirmBody = () => {
+    const request = useConfirmStore((state) => state.request)!;
+    const settle = useConfirmStore((state) => state.settle);
+    const [impactState, setImpactState] = useState<ImpactState>(() =>
+        typeof request.impact === 'function' ? { status: 'loading' } : { status: 'ready', impact: request.impact ?? null }
+    );
+    const [typed, setTyped] = useState('');
+
+    useEffect(() => {
+        if (typeof request.impact !== 'function') return;
+        let isCurrent = true;
+        request.impact()
+            .then((impact) => isCurrent && setImpactState({ status: 'ready', impact }))
+            .catch((error) => {
+                console.error('Failed to load confirmation impact', error);
+                if (isCurrent) setImpactState({ status: 'error' });
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [request]);
+
+    const impact = impactState.status === 'ready' ? impactState.impact : null;
+    const typeToConfirm = request.typeToConfirm
+        ?? (impactState.status === 'error' ? request.errorTypeToConfirm : impact?.typeToConfirm);
+    const isDanger = (request.variant ?? 'danger') === 'danger';
+    const canConfirm = impactState.status !== 'loading' && (!typeToConfirm || typed.trim() === typeToConfirm);
+
+    return (
+        <form
+            className="space-y-4"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (canConfirm) settle(true);
+            }}
+        >
+            <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                    {isDanger && <AlertTriangle className="h-5 w-5 text-red-600" />}
+                    {request.title}
+                </DialogTitle>
+                {request.description && <DialogDescription>{request.description}</DialogDescription>}
+            </DialogHeader>
+
+            {impactState.status === 'loading' ? (
+                <p className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Checking what this affects...
+                </p>
+            ) : impactState.status === 'error' ? (
+                <p className="text-sm text-yellow-700">Could not check what this affects.</p>
+            ) : impact && impact.items.length > 0 && (
+                <ul
+                    className={cn(
+                        'list-disc space-y-1 rounded-md border px-8 py-3 text-sm',
+                        isDanger ? 'border-red-200 bg-red-50 text-red-800' : 'border-gray-200 bg-gray-50 text-gray-700'
+                    )}
+                >
+                    {impact.items.map((item) => <li key={item}>{item}</li>)}
+                </ul>
+            )}
+
+            {typeToConfirm && (
+                <div className="space-y-1">
+                    <label htmlFor="confirm-text" className="block text-sm text-gray-700">
+                        Type <span className="font-semibold">{typeToConfirm}</span> to confirm
+                    </label>
+                    <Input
+                        id="confirm-text"
+                        autoComplete="off"
+                        autoFocus
+                        value={typed}
+                        onChange={(e) => setTyped(e.target.value)}
+                    />
+                </div>
+            )}
+
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => settle(false)} autoFocus={!typeToConfirm}>Cancel</Button>
+                <Button type="submit" variant={isDanger ? 'danger' : 'primary'} disabled={!canConfirm}>
+                    {request.confirmLabel ?? 'Confirm'}
+                </Button>
+            </DialogFooter>
+        </form>
+    );
+};
+
+// Renders requests made with confirmAction(). Cancel is focused by default so Enter never deletes by accident.
+export const ConfirmDialogHost = () => {
+    const request = useConfirmStore((state) => state.request);
+    const settle = useConfirmStore((state) => state.settle);
+
+    return (
+        <Dialog open={!!request} onOpenChange={(open) => !open && settle(false)}>
+            <DialogContent>
+                {request && <ConfirmBody key={request.id} />}
+            </DialogContent>
+        </Dialog>
+    );
+};
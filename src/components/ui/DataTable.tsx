@@ -0,0 +1,273 @@
+import { useCallback, useRef, useState, type ReactNode } from 'react';
+import {
+    flexRender,
+    getCoreRowModel,
+    useReactTable,
+    type Cell,
+    type ColumnDef,
+    type OnChangeFn,
+    type RowData,
+    type SortingState,
+    type Table as TanstackTable,
+    type VisibilityState,
+} from '@tanstack/react-table';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3 } from 'lucide-react';
+import { Button } from './Button';
+import { Checkbox } from './Checkbox';
+import { Skeleton } from './Skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+import { PAGE_SIZE_OPTIONS } from '../../utils/table';
+import { useDismiss } from '../../hooks/useDismiss';
+import { useAuthStore } from '../../stores/authStore';
+import { useTablePreferencesStore } from '../../stores/tablePreferencesStore';
+
+declare module '@tanstack/react-table' {
+    interface ColumnMeta<TData extends RowData, TValue> {
+        label?: string; // name in the column menu when the header is not plain text
+        headerClassName?: string;
+        // A function styles each cell from its value, e.g. red for negative numbers
+        cellClassName?: string | ((value: TValue, row: TData) => string | undefined);
+        skeleton?: ReactNode; // placeholder rendered while loading
+    }
+}
+
+interface DataTablePagination {
+    page: number;
+    pageSize: number;
+    // When the API does not report totals, "Next" is enabled while pages come back full
+    pageCount?: number;
+    onPageChange: (page: number) => void;
+    onPageSizeChange: (pageSize: number) => void;
+}
+
+interface DataTableProps<T> {
+    tableId: string; // key for the persisted column visibility
+    columns: ColumnDef<T>[];
+    data: T[];
+    getRowId: (row: T) => string;
+    isLoading?: boolean;
+    emptyMessage?: string;
+    sorting?: SortingState;
+    onSortingChange?: (sorting: SortingState) => void;
+    pagination?: DataTablePagination;
+    isRowSelected?: (row: T) => boolean;
+    toolbar?: ReactNode; // rendered left of the column menu
+}
+
+const getColumnLabel = <T,>(column: ReturnType<TanstackTable<T>['getAllLeafColumns']>[number]) =>
+    column.columnDef.meta?.label ?? (typeof column.columnDef.header === 'string' ? column.columnDef.header : column.id);
+
+// Loading rows have no value to style with, so they only get a plain class name
+const staticCellClassName = (className: unknown) =>
+    typeof className === 'string' ? className : undefined;
+
+const cellClassName = <T,>(cell: Cell<T, unknown>) => {
+    const className = cell.column.columnDef.meta?.cellClassName;
+    return typeof className === 'function' ? className(cell.getValue(), cell.row.original) : className;
+};
+
+const ColumnVisibilityMenu = <T,>({ table }: { table: TanstackTable<T> }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const closeMenu = useCallback(() => setIsOpen(false), []);
+    useDismiss(containerRef, isOpen, closeMenu);
+
+    const hideableColumns = table.getAllLeafColumns().filter((column) => column.getCanHide());
+    if (hideableColumns.length === 0) return null;
+
+    return (
+        <div ref={containerRef} className="relative">
+            <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsOpen((open) => !open)}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                <Columns3 className="mr-2 h-4 w-4" />
+                Columns
+            </Button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 z-30 mt-1 w-48 rounded-lg border border-gray-200 bg-white py-1 shadow-lg">
+                    {hideableColumns.map((column) => (
+                        <label
+                            key={column.id}
+                            className="flex cursor-pointer items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                            <Checkbox
+                                checked={column.getIsVisible()}
+                                onChange={column.getToggleVisibilityHandler()}
+                            />
+                            {getColumnLabel(column)}
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const DataTable = <T,>({
+    tableId,
+    columns,
+    data,
+    getRowId,
+    isLoading = false,
+    emptyMessage = 'No results found.',
+    sorting = [],
+    onSortingChange,
+    pagination,
+    isRowSelected,
+    toolbar,
+}: DataTableProps<T>) => {
+    const userId = useAuthStore((state) => state.user?.id) ?? 'anonymous';
+    const preferenceKey = `${userId}:${tableId}`;
+    const columnVisibility = useTablePreferencesStore((state) => state.columnVisibility[preferenceKey]);
+    const setColumnVisibility = useTablePreferencesStore((state) => state.setColumnVisibility);
+
+    const handleVisibilityChange: OnChangeFn<VisibilityState> = (updater) => {
+        const current = columnVisibility ?? {};
+        setColumnVisibility(preferenceKey, typeof updater === 'function' ? updater(current) : updater);
+    };
+
+    const handleSortingChange: OnChangeFn<SortingState> = (updater) => {
+        onSortingChange?.(typeof updater === 'function' ? updater(sorting) : updater);
+    };
+
+    // The React Compiler skips this component (see eslint.config.js); tanstack returns a stable, mutable table instance
+    const table = useReactTable({
+        data,
+        columns,
+        getRowId,
+        getCoreRowModel: getCoreRowModel(),
+        manualSorting: true,
+        manualPagination: true,
+        enableMultiSort: false,
+        // Sorting happens on the server, so columns opt in to what the API supports
+        defaultColumn: { enableSorting: false },
+        state: { sorting, columnVisibility: columnVisibility ?? {} },
+        onSortingChange: handleSortingChange,
+        onColumnVisibilityChange: handleVisibilityChange,
+    });
+
+    const visibleColumns = table.getVisibleLeafColumns();
+    const rows = table.getRowModel().rows;
+    const page = pagination?.page ?? 1;
+    const canNextPage = pagination?.pageCount !== undefined
+        ? page < pagination.pageCount
+        : data.length >= (pagination?.pageSize ?? Infinity);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-end gap-2">
+                {toolbar}
+                <ColumnVisibilityMenu table={table} />
+            </div>
+
+            <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+                <Table containerClassName="max-h-[70vh]">
+                    <TableHeader className="sticky top-0 z-10 bg-white shadow-[inset_0_-1px_0_theme(colors.gray.200)]">
+                        {table.getHeaderGroups().map((headerGroup) => (
+                            <TableRow key={headerGroup.id}>
+                                {headerGroup.headers.map((header) => {
+                                    const sortDirection = header.column.getIsSorted();
+                                    const content = flexRender(header.column.columnDef.header, header.getContext());
+                                    return (
+                                        <TableHead
+                                            key={header.id}
+                                            className={header.column.columnDef.meta?.headerClassName}
+                                            aria-sort={sortDirection ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}
+                                        >
+                                            {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                                                <button
+                                                    type="button"
+                                                    className="inline-flex items-center gap-1 hover:text-gray-900"
+                                                    onClick={header.column.getToggleSortingHandler()}
+                                                >
+                                                    {content}
+                                                    {sortDirection === 'asc' ? (
+                                                        <ArrowUp className="h-3.5 w-3.5" />
+                                                    ) : sortDirection === 'desc' ? (
+                                                        <ArrowDown className="h-3.5 w-3.5" />
+                                                    ) : (
+                                                        <ArrowUpDown className="h-3.5 w-3.5 text-gray-300" />
+                                                    )}
+                                                </button>
+                                            ) : content}
+                                        </TableHead>
+                                    );
+                                })}
+                            </TableRow>
+                        ))}
+                    </TableHeader>
+                    <TableBody>
+                        {isLoading ? (
+                            Array.from({ length: 5 }).map((_, i) => (
+                                <TableRow key={i}>
+                                    {visibleColumns.map((column) => (
+                                        <TableCell key={column.id} className={staticCellClassName(column.columnDef.meta?.cellClassName)}>
+                                            {column.columnDef.meta?.skeleton ?? <Skeleton className="h-4 w-24" />}
+                                        </TableCell>
+                                    ))}
+                                </TableRow>
+                            ))
+                        ) : rows.length === 0 ? (
+                            <TableRow>
+                                <TableCell colSpan={visibleColumns.length} className="text-center py-8 text-gray-500">{emptyMessage}</TableCell>
+                            </TableRow>
+                        ) : (
+                            rows.map((row) => (
+                                <TableRow
+                                    key={row.id}
+                                    data-state={isRowSelected?.(row.original) ? 'selected' : undefined}
+                                >
+                                    {row.getVisibleCells().map((cell) => (
+                                        <TableCell key={cell.id} className={cellClassName(cell)}>
+                                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                                        </TableCell>
+                                    ))}
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                </Table>
+            </div>
+
+            {pagination && (
+                <div className="flex flex-wrap items-center justify-end gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Rows per page
+                        <select
+                            className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            value={pagination.pageSize}
+                            onChange={(e) => pagination.onPageSizeChange(Number(e.target.value))}
+                        >
+                            {PAGE_SIZE_OPTIONS.map((size) => (
+                                <option key={size} value={size}>{size}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="outline"
+                            disabled={page <= 1}
+                            onClick={() => pagination.onPageChange(page - 1)}
+                        >
+                            Previous
+                        </Button>
+                        <span className="text-sm text-gray-600">
+                            Page {page}{pagination.pageCount !== undefined && ` of ${pagination.pageCount || 1}`}
+                        </span>
+                        <Button
+                            variant="outline"
+                            disabled={isLoading || !canNextPage}
+                            onClick={() => pagination.onPageChange(page + 1)}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import { cn } from '../../utils/cn';
+import { lastNDays, rangeLengthInDays, toDateInput, type DateRange } from '../../utils/date';
+
+interface DateRangePickerProps {
+    value: DateRange;
+    onChange: (range: DateRange) => void;
+    presets?: number[]; // in days
+    className?: string;
+}
+
+export const DateRangePicker = ({ value, onChange, presets = [7, 30, 90], className }: DateRangePickerProps) => {
+    const today = toDateInput(new Date());
+    const isPresetActive = (days: number) =>
+        value.to === today && rangeLengthInDays(value) === days;
+
+    const inputClassName =
+        'h-10 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+    return (
+        <div className={cn('flex flex-wrap items-center gap-2', className)}>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                {presets.map((days) => (
+                    <button
+                        key={days}
+                        type="button"
+                        onClick={() => onChange(lastNDays(days))}
+                        className={cn(
+                            'px-3 py-2 text-sm font-medium transition-colors border-r border-gray-300 last:border-r-0',
+                            isPresetActive(days) ? 'bg-primary-50 text-primary-700' : 'bg-white text-gray-600 hover:bg-gray-50'
+                        )}
+                    >
+                        {days}d
+                    </button>
+                ))}
+            </div>
+            <input
+                type="date"
+                aria-label="From"
+                className={inputClassName}
+                value={value.from}
+                max={value.to}
+                onChange={(e) => e.target.value && onChange({ ...value, from: e.target.value })}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+                type="date"
+                aria-label="To"
+                className={inputClassName}
+                value={value.to}
+                min={value.from}
+                max={today}
+                onChange={(e) => e.target.value && onChange({ ...value, to: e.target.value })}
+            />
+        </div>
+    );
+};
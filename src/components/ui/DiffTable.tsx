@@ -0,0 +1,39 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './Table';
+import { cn } from '../../utils/cn';
+import { formatDiffValue, type FieldChange } from '../../utils/diff';
+
+interface DiffTableProps {
+    changes: FieldChange[];
+    beforeLabel?: string;
+    afterLabel?: string;
+    emptyMessage?: string;
+}
+
+const valueClassName = 'max-w-xs whitespace-pre-wrap break-words align-top font-mono text-xs';
+
+export const DiffTable = ({ changes, beforeLabel = 'Before', afterLabel = 'After', emptyMessage = 'No field changes.' }: DiffTableProps) => (
+    <Table containerClassName="max-h-[60vh]">
+        <TableHeader>
+            <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>{beforeLabel}</TableHead>
+                <TableHead>{afterLabel}</TableHead>
+            </TableRow>
+        </TableHeader>
+        <TableBody>
+            {changes.length === 0 ? (
+                <TableRow>
+                    <TableCell colSpan={3} className="py-6 text-center text-gray-500">{emptyMessage}</TableCell>
+                </TableRow>
+            ) : (
+                changes.map((change) => (
+                    <TableRow key={change.field}>
+                        <TableCell className="align-top font-medium">{change.field}</TableCell>
+                        <TableCell className={cn(valueClassName, 'bg-red-50/60 text-red-800')}>{formatDiffValue(change.before)}</TableCell>
+                        <TableCell className={cn(valueClassName, 'bg-green-50/60 text-green-800')}>{formatDiffValue(change.after)}</TableCell>
+                    </TableRow>
+                ))
+            )}
+        </TableBody>
+    </Table>
+);
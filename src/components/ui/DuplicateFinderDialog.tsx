@@ -0,0 +1,224 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { CheckCircle2, Loader2, Merge } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './Button';
+import { Checkbox } from './Checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './Dialog';
+import { confirmAction } from '../../stores/confirmStore';
+import { cn } from '../../utils/cn';
+import { DUPLICATE_REASON_LABELS, findDuplicateGroups, type DuplicateGroup, type DuplicateReason } from '../../utils/duplicates';
+import type { MergeProgress, MergeResult } from '../../utils/merge';
+
+interface Mergeable {
+    id: string;
+    name: string;
+}
+
+interface DuplicateFinderDialogProps<T extends Mergeable> {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    title: string;
+    noun: string; // "actor", for messages
+    // Define loadItems and keys outside the component so they stay stable between renders
+    loadItems: () => Promise<T[]>;
+    // Exact-match keys on top of fuzzy name matching, e.g. the same photo URL
+    keys?: { reason: DuplicateReason; get: (item: T) => string | undefined }[];
+    renderItem?: (item: T) => ReactNode; // extra details next to the name
+    merge: (survivor: T, duplicates: T[], onProgress: (progress: MergeProgress) => void) => Promise<MergeResult>;
+    onMerged: () => void;
+}
+
+interface GroupState {
+    survivorId: string;
+    excluded: Set<string>; // records the user decided are not duplicates
+    failures?: MergeResult['failed'];
+}
+
+// Lives inside the dialog content, so groups are recomputed every time the dialog opens
+const DuplicateFinder = <T extends Mergeable>({
+    noun,
+    loadItems,
+    keys,
+    renderItem,
+    merge,
+    onMerged,
+}: Omit<DuplicateFinderDialogProps<T>, 'open' | 'onOpenChange' | 'title'>) => {
+    const [groups, setGroups] = useState<DuplicateGroup<T>[] | null>(null);
+    const [state, setState] = useState<GroupState[]>([]);
+    const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        let isCurrent = true;
+        const findGroups = async () => {
+            try {
+                const items = await loadItems();
+                if (!isCurrent) return;
+                const found = findDuplicateGroups(items, { getId: (item) => item.id, getName: (item) => item.name, keys });
+                setGroups(found);
+                setState(found.map((group) => ({ survivorId: group.items[0].id, excluded: new Set() })));
+            } catch (error) {
+                console.error(`Failed to load ${noun}s`, error);
+                toast.error(`Failed to load ${noun}s`);
+                if (isCurrent) setGroups([]);
+            }
+        };
+        findGroups();
+        return () => {
+            isCurrent = false;
+        };
+    }, [loadItems, keys, noun, reloadKey]);
+
+    const updateGroup = (index: number, patch: Partial<GroupState>) =>
+        setState((current) => current.map((group, i) => (i === index ? { ...group, ...patch } : group)));
+
+    const toggleExcluded = (index: number, id: string) => {
+        const excluded = new Set(state[index].excluded);
+        if (excluded.has(id)) excluded.delete(id);
+        else excluded.add(id);
+        updateGroup(index, { excluded });
+    };
+
+    const handleMerge = async (index: number) => {
+        if (!groups) return;
+        const { survivorId, excluded } = state[index];
+        const survivor = groups[index].items.find((item) => item.id === survivorId)!;
+        const duplicates = groups[index].items.filter((item) => item.id !== survivorId && !excluded.has(item.id));
+        if (duplicates.length === 0) return;
+
+        const confirmed = await confirmAction({
+            title: `Merge into "${survivor.name}"?`,
+            description: `Dramas linked to the other ${noun}s are moved to "${survivor.name}", then the duplicates are moved to the trash.`,
+            impact: { items: duplicates.map((d) => `"${d.name}" is merged and deleted`) },
+            confirmLabel: 'Merge',
+        });
+        if (!confirmed) return;
+
+        setMergingIndex(index);
+        const toastId = toast.loading('Merging...');
+        try {
+            const result = await merge(survivor, duplicates, ({ done, total }) =>
+                toast.loading(`Relinking dramas... ${done}/${total}`, { id: toastId })
+            );
+            if (result.failed.length > 0) {
+                toast.error(`${result.failed.length} updates failed; duplicates with failed dramas were kept`, { id: toastId });
+                updateGroup(index, { failures: result.failed });
+            } else {
+                toast.success(`Merged ${duplicates.length} into ${survivor.name} (${result.reassigned} dramas relinked)`, { id: toastId });
+            }
+            onMerged();
+            // Keep the group on screen when something failed so the errors stay visible
+            if (result.failed.length === 0) setReloadKey((key) => key + 1);
+        } catch (error) {
+            console.error('Merge failed', error);
+            toast.error('Merge failed', { id: toastId });
+        } finally {
+            setMergingIndex(null);
+        }
+    };
+
+    if (!groups) {
+        return (
+            <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+        );
+    }
+
+    if (groups.length === 0) {
+        return (
+            <div className="flex flex-col items-center gap-2 py-10 text-sm text-gray-500">
+                <CheckCircle2 className="h-8 w-8 text-green-500" />
+                No likely duplicates found.
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {groups.map((group, index) => {
+                const groupState = state[index];
+                const mergeCount = group.items.filter((item) => item.id !== groupState.survivorId && !groupState.excluded.has(item.id)).length;
+                return (
+                    <div key={group.items.map((item) => item.id).join(':')} className="rounded-lg border border-gray-200">
+                        <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-100 bg-gray-50 px-4 py-2">
+                            <div className="flex flex-wrap gap-1">
+                                {group.reasons.map((reason) => (
+                                    <span key={reason} className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+                                        {DUPLICATE_REASON_LABELS[reason]}
+                                    </span>
+                                ))}
+                            </div>
+                            <Button
+                                size="sm"
+                                disabled={mergeCount === 0 || mergingIndex !== null}
+                                isLoading={mergingIndex === index}
+                                onClick={() => handleMerge(index)}
+                            >
+                                {mergingIndex !== index && <Merge className="mr-2 h-4 w-4" />}
+                                Merge {mergeCount}
+                            </Button>
+                        </div>
+                        <ul className="divide-y divide-gray-100">
+                            {group.items.map((item) => {
+                                const isSurvivor = item.id === groupState.survivorId;
+                                return (
+                                    <li key={item.id} className={cn('flex items-center gap-3 px-4 py-2', groupState.excluded.has(item.id) && 'opacity-50')}>
+                                        <label className="flex items-center gap-2 text-xs text-gray-500" title="Keep this record">
+                                            <input
+                                                type="radio"
+                                                name={`survivor-${index}`}
+                                                checked={isSurvivor}
+                                                onChange={() => updateGroup(index, { survivorId: item.id })}
+                                                className="h-4 w-4 accent-primary-600"
+                                            />
+                                            Keep
+                                        </label>
+                                        <div className="flex min-w-0 flex-1 items-center gap-3">
+                                            <span className="truncate font-medium text-gray-900">{item.name}</span>
+                                            {renderItem?.(item)}
+                                        </div>
+                                        {!isSurvivor && (
+                                            <label className="flex items-center gap-2 text-xs text-gray-500">
+                                                <Checkbox
+                                                    checked={!groupState.excluded.has(item.id)}
+                                                    onChange={() => toggleExcluded(index, item.id)}
+                                                />
+                                                Merge
+                                            </label>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        {groupState.failures && (
+                            <ul className="space-y-1 border-t border-red-100 bg-red-50 px-4 py-2 text-xs text-red-700">
+                                {groupState.failures.map((failure, i) => (
+                                    <li key={i}><span className="font-medium">{failure.label}:</span> {failure.error}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export const DuplicateFinderDialog = <T extends Mergeable>({ open, onOpenChange, title, ...props }: DuplicateFinderDialogProps<T>) => (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+            <DialogHeader>
+                <DialogTitle>{title}</DialogTitle>
+                <DialogDescription>
+                    Likely duplicates by similar names{props.keys?.length ? ' and matching details' : ''}. Pick the record to keep in each group;
+                    its dramas gain every link from the merged records.
+                </DialogDescription>
+            </DialogHeader>
+            {open && <DuplicateFinder {...props} />}
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+            </DialogFooter>
+        </DialogContent>
+    </Dialog>
+);
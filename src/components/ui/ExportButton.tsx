@@ -0,0 +1,78 @@
+import { useCallback, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './Button';
+import { useDismiss } from '../../hooks/useDismiss';
+import { exportFilename, exportRows, type ExportColumn, type ExportFormat } from '../../utils/export';
+
+interface ExportButtonProps<T> {
+    name: string; // used for the file and sheet name
+    columns: ExportColumn<T>[];
+    // Fetch every row matching the current filters, not just the visible page
+    fetchRows: () => Promise<T[]>;
+}
+
+const formats: { format: ExportFormat; label: string }[] = [
+    { format: 'csv', label: 'CSV (.csv)' },
+    { format: 'xlsx', label: 'Excel (.xlsx)' },
+];
+
+export const ExportButton = <T,>({ name, columns, fetchRows }: ExportButtonProps<T>) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const closeMenu = useCallback(() => setIsOpen(false), []);
+
+    useDismiss(containerRef, isOpen, closeMenu);
+
+    const handleExport = async (format: ExportFormat) => {
+        setIsOpen(false);
+        setIsExporting(true);
+        const toastId = toast.loading('Preparing export...');
+        try {
+            const rows = await fetchRows();
+            if (rows.length === 0) {
+                toast.info('Nothing to export', { id: toastId });
+                return;
+            }
+            await exportRows(rows, columns, { filename: exportFilename(name.toLowerCase()), format, sheet: name });
+            toast.success(`Exported ${rows.length} rows`, { id: toastId });
+        } catch (error) {
+            console.error('Export failed', error);
+            toast.error('Export failed', { id: toastId });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <Button
+                variant="outline"
+                isLoading={isExporting}
+                onClick={() => setIsOpen((open) => !open)}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                {!isExporting && <Download className="mr-2 h-4 w-4" />}
+                Export
+                <ChevronDown className="ml-2 h-4 w-4" />
+            </Button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 z-20 mt-1 w-40 rounded-lg border border-gray-200 bg-white py-1 shadow-lg">
+                    {formats.map(({ format, label }) => (
+                        <button
+                            key={format}
+                            type="button"
+                            role="menuitem"
+                            className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                            onClick={() => handleExport(format)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
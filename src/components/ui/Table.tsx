@@ -2,9 +2,13 @@ import { forwardRef } from 'react';
 import type { HTMLAttributes, TdHTMLAttributes } from 'react';
 import { cn } from '../../utils/cn';
 
-export const Table = forwardRef<HTMLTableElement, HTMLAttributes<HTMLTableElement>>(
-    ({ className, ...props }, ref) => (
-        <div className="w-full overflow-auto">
+interface TableProps extends HTMLAttributes<HTMLTableElement> {
+    containerClassName?: string; // e.g. a max height so sticky headers have something to stick to
+}
+
+export const Table = forwardRef<HTMLTableElement, TableProps>(
+    ({ className, containerClassName, ...props }, ref) => (
+        <div className={cn('w-full overflow-auto', containerClassName)}>
             <table
                 ref={ref}
                 className={cn('w-full caption-bottom text-sm', className)}
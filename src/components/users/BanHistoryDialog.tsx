@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { userService } from '../../services/user';
+import type { BanRecord, User } from '../../types';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { Skeleton } from '../ui/Skeleton';
+import { BanHistoryList } from './BanHistoryList';
+
+interface BanHistoryDialogProps {
+    user: User | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const BanHistoryDialog = ({ user, onOpenChange }: BanHistoryDialogProps) => {
+    const [records, setRecords] = useState<BanRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!user) return;
+        const fetchHistory = async () => {
+            setIsLoading(true);
+            try {
+                setRecords(await userService.getBanHistory(user.id));
+            } catch (error) {
+                console.error('Failed to fetch ban history', error);
+                setRecords([]);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchHistory();
+    }, [user]);
+
+    return (
+        <Dialog open={!!user} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-xl">
+                <DialogHeader>
+                    <DialogTitle>Ban history — {user?.name}</DialogTitle>
+                </DialogHeader>
+                <div className="max-h-[60vh] overflow-y-auto">
+                    {isLoading ? (
+                        <div className="space-y-3">
+                            {Array.from({ length: 3 }).map((_, i) => (
+                                <Skeleton key={i} className="h-14 w-full" />
+                            ))}
+                        </div>
+                    ) : (
+                        <BanHistoryList records={records} />
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,36 @@
+import type { BanRecord } from '../../types';
+import { cn } from '../../utils/cn';
+
+export const BanHistoryList = ({ records }: { records: BanRecord[] }) => {
+    if (records.length === 0) {
+        return <p className="py-6 text-center text-sm text-gray-500">No bans on record.</p>;
+    }
+
+    return (
+        <ol className="space-y-3">
+            {records.map((record) => (
+                <li key={record.id} className="rounded-lg border border-gray-200 p-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <span className={cn(
+                            'inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium',
+                            record.action === 'ban' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                        )}>
+                            {record.action === 'ban' ? 'Banned' : 'Unbanned'}
+                        </span>
+                        <span className="text-xs text-gray-500">{new Date(record.created_at).toLocaleString()}</span>
+                    </div>
+                    {record.reason && <p className="mt-2 text-sm text-gray-700">{record.reason}</p>}
+                    <p className="mt-1 text-xs text-gray-500">
+                        {record.created_by && <>By {record.created_by.name}</>}
+                        {record.action === 'ban' && (
+                            <>
+                                {record.created_by && ' · '}
+                                {record.expires_at ? `Until ${new Date(record.expires_at).toLocaleDateString()}` : 'Permanent'}
+                            </>
+                        )}
+                    </p>
+                </li>
+            ))}
+        </ol>
+    );
+};
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { userService } from '../../services/user';
+import type { User } from '../../types';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { addDays, parseDateInput, toDateInput } from '../../utils/date';
+
+const banSchema = z.object({
+    reason: z.string().trim().min(3, 'Please give a reason'),
+    expires_at: z.string().optional().refine(
+        (value) => !value || value > toDateInput(new Date()),
+        'Expiry must be in the future'
+    ),
+});
+
+type BanFormData = z.infer<typeof banSchema>;
+
+interface BanUserDialogProps {
+    user: User | null;
+    onOpenChange: (open: boolean) => void;
+    onBanned: (user: User) => void;
+}
+
+export const BanUserDialog = ({ user, onOpenChange, onBanned }: BanUserDialogProps) => {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<BanFormData>({
+        resolver: zodResolver(banSchema),
+    });
+
+    useEffect(() => {
+        if (user) reset({ reason: '', expires_at: '' });
+    }, [user, reset]);
+
+    const onSubmit = async (data: BanFormData) => {
+        if (!user) return;
+        setIsSubmitting(true);
+        try {
+            // A ban with an expiry date lasts until the end of that day
+            const expiresAt = data.expires_at
+                ? new Date(parseDateInput(data.expires_at).setHours(23, 59, 59, 999)).toISOString()
+                : null;
+            const updated = await userService.ban(user.id, { reason: data.reason, expires_at: expiresAt });
+            toast.success(`${user.name} has been banned`);
+            onBanned(updated ?? { ...user, is_banned: true, ban_reason: data.reason, banned_until: expiresAt });
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Failed to ban user', error);
+            toast.error('Failed to ban user');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!user} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Ban {user?.name}</DialogTitle>
+                    <DialogDescription>
+                        Banned users cannot sign in or stream content. Leave the expiry empty for a permanent ban.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="w-full">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                        <textarea
+                            rows={3}
+                            className="flex w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all"
+                            placeholder="e.g. Abusive comments on episode pages"
+                            {...register('reason')}
+                        />
+                        {errors.reason?.message && <p className="mt-1 text-sm text-red-500">{errors.reason.message}</p>}
+                    </div>
+                    <Input
+                        label="Expires on (optional)"
+                        type="date"
+                        min={toDateInput(addDays(new Date(), 1))}
+                        error={errors.expires_at?.message}
+                        {...register('expires_at')}
+                    />
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                        <Button type="submit" variant="danger" isLoading={isSubmitting}>Ban User</Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,16 @@
+import type { User } from '../../types';
+import { cn } from '../../utils/cn';
+
+export const UserStatusBadge = ({ user }: { user: User }) => (
+    <span
+        className={cn(
+            'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium',
+            user.is_banned ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+        )}
+        title={user.is_banned ? user.ban_reason : undefined}
+    >
+        {user.is_banned
+            ? user.banned_until ? `Banned until ${new Date(user.banned_until).toLocaleDateString()}` : 'Banned'
+            : 'Active'}
+    </span>
+);
@@ -0,0 +1,20 @@
+import { useEffect, type RefObject } from 'react';
+
+// Close a popover when clicking outside `ref` or pressing Escape
+export const useDismiss = (ref: RefObject<HTMLElement | null>, isOpen: boolean, onDismiss: () => void) => {
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!ref.current?.contains(e.target as Node)) onDismiss();
+        };
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onDismiss();
+        };
+        document.addEventListener('mousedown', handleClick);
+        document.addEventListener('keydown', handleKey);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+            document.removeEventListener('keydown', handleKey);
+        };
+    }, [ref, isOpen, onDismiss]);
+};
@@ -0,0 +1,65 @@
+import { useState, type DragEvent, type KeyboardEvent } from 'react';
+
+const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+// Native HTML5 drag and drop for reordering rows of a list. Spread `getRowProps(index)` on each
+// row; `getHandleProps(index)` adds Alt+Arrow keyboard moves for people who cannot drag.
+export const useDragReorder = <T>(items: T[], onReorder: (items: T[]) => void) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overIndex, setOverIndex] = useState<number | null>(null);
+
+    const reset = () => {
+        setDragIndex(null);
+        setOverIndex(null);
+    };
+
+    const move = (from: number, to: number) => {
+        if (from === to || to < 0 || to >= items.length) return;
+        onReorder(moveItem(items, from, to));
+    };
+
+    const getRowProps = (index: number) => ({
+        draggable: true,
+        onDragStart: (e: DragEvent) => {
+            e.dataTransfer.effectAllowed = 'move';
+            // Firefox refuses to start a drag without data
+            e.dataTransfer.setData('text/plain', String(index));
+            setDragIndex(index);
+        },
+        onDragOver: (e: DragEvent) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (overIndex !== index) setOverIndex(index);
+        },
+        onDrop: (e: DragEvent) => {
+            e.preventDefault();
+            if (dragIndex !== null) move(dragIndex, index);
+            reset();
+        },
+        onDragEnd: reset,
+    });
+
+    const getHandleProps = (index: number) => ({
+        tabIndex: 0,
+        role: 'button',
+        'aria-label': `Move row ${index + 1}. Use Alt and the arrow keys to reorder.`,
+        onKeyDown: (e: KeyboardEvent) => {
+            if (!e.altKey) return;
+            if (e.key === 'ArrowUp') {
+                e.preventDefault();
+                move(index, index - 1);
+            } else if (e.key === 'ArrowDown') {
+                e.preventDefault();
+                move(index, index + 1);
+            }
+        },
+    });
+
+    return { dragIndex, overIndex, getRowProps, getHandleProps };
+};
@@ -0,0 +1,13 @@
+import { useAuthStore } from '../stores/authStore';
+import { hasPermission, type Permission } from '../utils/permissions';
+
+export const usePermission = (permission: Permission) => {
+    const role = useAuthStore((state) => state.user?.role);
+    return hasPermission(role, permission);
+};
+
+// For components that check several permissions
+export const usePermissions = () => {
+    const role = useAuthStore((state) => state.user?.role);
+    return (permission: Permission) => hasPermission(role, permission);
+};
@@ -1,46 +1,104 @@
 import { useEffect, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { actorService } from '@/services/actor';
+import { dramaService } from '@/services/drama';
+import { trashService } from '@/services/trash';
 import type { Actor } from '@/types';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/Dialog';
-import { Plus, Search, Pencil, Trash2, User } from 'lucide-react';
+import { Copy, Plus, Search, Pencil, Trash2, User } from 'lucide-react';
 import { toast } from 'sonner';
+import { confirmAction } from '@/stores/confirmStore';
 import { Skeleton } from '@/components/ui/Skeleton';
+import { DataTable } from '@/components/ui/DataTable';
+import { ExportButton } from '@/components/ui/ExportButton';
+import { DuplicateFinderDialog } from '@/components/ui/DuplicateFinderDialog';
+import { ImageUploadField } from '@/components/media/ImageUploadField';
+import type { ExportColumn } from '@/utils/export';
+import { fetchAllPages } from '@/utils/pagination';
+import { mergeSearchParams, parsePageSize } from '@/utils/table';
+import { toastWithUndo } from '@/utils/undo';
+import { ACTOR_SOCIAL_PLATFORMS, compactSocialLinks } from '@/utils/actors';
+import { parseDateInput } from '@/utils/date';
+import { mergeActors } from '@/utils/merge';
+import type { ColumnDef } from '@tanstack/react-table';
+
+const EXPORT_FETCH_LIMIT = 100;
+
+const exportColumns: ExportColumn<Actor>[] = [
+    { header: 'ID', value: (a) => a.id, width: 38 },
+    { header: 'Name', value: (a) => a.name, width: 30 },
+    { header: 'Photo URL', value: (a) => a.photo_url, width: 50 },
+    { header: 'Birth Date', value: (a) => a.birth_date, width: 14 },
+    { header: 'Nationality', value: (a) => a.nationality, width: 20 },
+];
+
+const loadAllActors = () =>
+    fetchAllPages<Actor>((p) => actorService.getAll({ page: p, limit: EXPORT_FETCH_LIMIT }), { limit: EXPORT_FETCH_LIMIT });
+
+const duplicateKeys = [{ reason: 'same_image' as const, get: (actor: Actor) => actor.photo_url }];
+
+const optionalUrl = z.string().url('Invalid URL format').optional().or(z.literal(''));
 
 const actorSchema = z.object({
     name: z.string().min(1, 'Name is required'),
-    photo_url: z.string().url('Invalid URL format').optional().or(z.literal('')),
+    photo_url: optionalUrl,
+    birth_date: z.string().optional().refine((value) => !value || parseDateInput(value) <= new Date(), 'Birth date cannot be in the future'),
+    nationality: z.string().max(100, 'Nationality must be 100 characters or less').optional(),
+    bio: z.string().max(2000, 'Bio must be 2000 characters or less').optional(),
+    social_links: z.object({
+        instagram: optionalUrl,
+        twitter: optionalUrl,
+        facebook: optionalUrl,
+        website: optionalUrl,
+    }),
 });
 
 type ActorFormData = z.infer<typeof actorSchema>;
 
+const toActorFormValues = (actor?: Actor): ActorFormData => ({
+    name: actor?.name ?? '',
+    photo_url: actor?.photo_url ?? '',
+    birth_date: actor?.birth_date ?? '',
+    nationality: actor?.nationality ?? '',
+    bio: actor?.bio ?? '',
+    social_links: Object.fromEntries(
+        ACTOR_SOCIAL_PLATFORMS.map(({ platform }) => [platform, actor?.social_links?.[platform] ?? ''])
+    ) as ActorFormData['social_links'],
+});
+
+const toActorPayload = (data: ActorFormData): Partial<Actor> => ({
+    ...data,
+    birth_date: data.birth_date || null,
+    social_links: compactSocialLinks(data.social_links),
+});
+
 export const Actors = () => {
     const [actors, setActors] = useState<Actor[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchParams, setSearchParams] = useSearchParams();
-    const [pageTotal, setPageTotal] = useState(0);
+    const [pageCount, setPageCount] = useState<number | undefined>(undefined);
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingActor, setEditingActor] = useState<Actor | null>(null);
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
 
     const page = Number(searchParams.get('page')) || 1;
     const search = searchParams.get('search') || '';
-    const limit = 10;
-    const totalPages = Math.ceil(pageTotal / limit);
+    const limit = parsePageSize(searchParams.get('limit'));
 
     const {
         register,
         handleSubmit,
         reset,
-        setValue,
+        control,
         formState: { errors },
     } = useForm<ActorFormData>({
         resolver: zodResolver(actorSchema),
+        defaultValues: toActorFormValues(),
     });
 
     const fetchActors = async () => {
@@ -50,10 +108,10 @@ export const Actors = () => {
             // Handle flat array response
             if (Array.isArray(data)) {
                 setActors(data);
-                setPageTotal(data.length);
+                setPageCount(undefined);
             } else {
                 setActors((data as any).items || []);
-                setPageTotal((data as any).total || 0);
+                setPageCount(Math.ceil(((data as any).total || 0) / limit));
             }
         } catch (error) {
             toast.error('Failed to fetch actors');
@@ -64,35 +122,38 @@ export const Actors = () => {
 
     useEffect(() => {
         fetchActors();
-    }, [page, search]);
+    }, [page, search, limit]);
 
     const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         const formData = new FormData(e.currentTarget);
         const query = formData.get('search') as string;
-        setSearchParams({ page: '1', search: query });
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, search: query }));
     };
 
     const handleEdit = (actor: Actor) => {
         setEditingActor(actor);
-        setValue('name', actor.name);
-        setValue('photo_url', actor.photo_url);
+        reset(toActorFormValues(actor));
         setIsDialogOpen(true);
     };
 
     const handleCreate = () => {
         setEditingActor(null);
-        reset();
+        reset(toActorFormValues());
         setIsDialogOpen(true);
     };
 
     const onSubmit = async (data: ActorFormData) => {
         try {
             if (editingActor) {
-                await actorService.update(editingActor.id, data);
-                toast.success('Actor updated');
+                const { id, ...previous } = editingActor;
+                await actorService.update(id, toActorPayload(data));
+                toastWithUndo('Actor updated', {
+                    undo: () => actorService.update(id, previous),
+                    onUndone: fetchActors,
+                });
             } else {
-                await actorService.create(data);
+                await actorService.create(toActorPayload(data));
                 toast.success('Actor created');
             }
             setIsDialogOpen(false);
@@ -102,25 +163,102 @@ export const Actors = () => {
         }
     };
 
-    const handleDelete = async (id: string) => {
-        if (!confirm('Delete this actor?')) return;
+    const handleDelete = async (actor: Actor) => {
+        const confirmed = await confirmAction({
+            title: `Delete ${actor.name}?`,
+            description: 'The actor moves to the trash and can be restored from there.',
+            confirmLabel: 'Move to Trash',
+            errorTypeToConfirm: actor.name,
+            impact: async () => {
+                const { total } = await dramaService.getAll({ actor: actor.id, limit: 1 });
+                return total > 0
+                    ? { items: [`Removed from the cast of ${total} ${total === 1 ? 'drama' : 'dramas'}`], typeToConfirm: actor.name }
+                    : { items: ['Not in the cast of any drama'] };
+            },
+        });
+        if (!confirmed) return;
         try {
-            await actorService.delete(id);
-            toast.success('Actor deleted');
+            await actorService.delete(actor.id);
+            toastWithUndo('Actor moved to trash', {
+                undo: () => trashService.restore('actor', actor.id),
+                onUndone: fetchActors,
+            });
             fetchActors();
         } catch (error) {
             toast.error('Failed to delete actor');
         }
     };
 
+    const columns: ColumnDef<Actor>[] = [
+        {
+            id: 'no',
+            header: 'No',
+            enableHiding: false,
+            cell: ({ row }) => (page - 1) * limit + row.index + 1,
+            meta: { skeleton: <Skeleton className="h-4 w-8" /> },
+        },
+        {
+            id: 'photo',
+            header: 'Photo',
+            cell: ({ row }) => row.original.photo_url ? (
+                <img src={row.original.photo_url} alt={row.original.name} className="h-10 w-10 rounded-full object-cover" />
+            ) : (
+                <div className="h-10 w-10 rounded-full bg-gray-100 flex items-center justify-center">
+                    <User className="h-5 w-5 text-gray-400" />
+                </div>
+            ),
+            meta: { skeleton: <Skeleton className="h-10 w-10 rounded-full" /> },
+        },
+        {
+            id: 'name',
+            header: 'Name',
+            cell: ({ row }) => (
+                <Link to={`/actors/${row.original.id}`} className="font-medium hover:text-primary-600">{row.original.name}</Link>
+            ),
+            meta: { skeleton: <Skeleton className="h-4 w-48" /> },
+        },
+        {
+            id: 'actions',
+            header: 'Actions',
+            enableHiding: false,
+            cell: ({ row }) => (
+                <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleEdit(row.original)}><Pencil className="h-4 w-4" /></Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(row.original)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+            ),
+            meta: {
+                headerClassName: 'text-right',
+                cellClassName: 'text-right',
+                skeleton: (
+                    <div className="flex justify-end gap-2">
+                        <Skeleton className="h-8 w-8 rounded-md" />
+                        <Skeleton className="h-8 w-8 rounded-md" />
+                    </div>
+                ),
+            },
+        },
+    ];
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold text-gray-800">Actors</h1>
-                <Button onClick={handleCreate}>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Actor
-                </Button>
+                <div className="flex items-center gap-2">
+                    <ExportButton
+                        name="Actors"
+                        columns={exportColumns}
+                        fetchRows={() => fetchAllPages<Actor>((p) => actorService.getAll({ page: p, limit: EXPORT_FETCH_LIMIT, search }), { limit: EXPORT_FETCH_LIMIT })}
+                    />
+                    <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Find Duplicates
+                    </Button>
+                    <Button onClick={handleCreate}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Actor
+                    </Button>
+                </div>
             </div>
 
             <div className="bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
@@ -138,81 +276,24 @@ export const Actors = () => {
                 </form>
             </div>
 
-            <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
-                <Table>
-                    <TableHeader>
-                        <TableRow>
-                            <TableHead>No</TableHead>
-                            <TableHead>Photo</TableHead>
-                            <TableHead>Name</TableHead>
-                            <TableHead className="text-right">Actions</TableHead>
-                        </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                        {isLoading ? (
-                            Array.from({ length: 5 }).map((_, i) => (
-                                <TableRow key={i}>
-                                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
-                                    <TableCell><Skeleton className="h-10 w-10 rounded-full" /></TableCell>
-                                    <TableCell><Skeleton className="h-4 w-48" /></TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex justify-end gap-2">
-                                            <Skeleton className="h-8 w-8 rounded-md" />
-                                            <Skeleton className="h-8 w-8 rounded-md" />
-                                        </div>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        ) : actors.length === 0 ? (
-                            <TableRow><TableCell colSpan={4} className="text-center py-8">No actors found.</TableCell></TableRow>
-                        ) : (
-                            actors.map((actor, index) => (
-                                <TableRow key={actor.id}>
-                                    <TableCell>{(page - 1) * limit + index + 1}</TableCell>
-                                    <TableCell>
-                                        {actor.photo_url ? (
-                                            <img src={actor.photo_url} alt={actor.name} className="h-10 w-10 rounded-full object-cover" />
-                                        ) : (
-                                            <div className="h-10 w-10 rounded-full bg-gray-100 flex items-center justify-center">
-                                                <User className="h-5 w-5 text-gray-400" />
-                                            </div>
-                                        )}
-                                    </TableCell>
-                                    <TableCell className="font-medium">{actor.name}</TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex justify-end gap-2">
-                                            <Button size="sm" variant="outline" onClick={() => handleEdit(actor)}><Pencil className="h-4 w-4" /></Button>
-                                            <Button size="sm" variant="danger" onClick={() => handleDelete(actor.id)}><Trash2 className="h-4 w-4" /></Button>
-                                        </div>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        )}
-                    </TableBody>
-                </Table>
-            </div>
-
-            {/* Pagination */}
-            <div className="flex items-center justify-end gap-2">
-                <Button
-                    variant="outline"
-                    disabled={page <= 1}
-                    onClick={() => setSearchParams({ page: String(page - 1), search })}
-                >
-                    Previous
-                </Button>
-                <span className="text-sm text-gray-600">Page {page} of {totalPages || 1}</span>
-                <Button
-                    variant="outline"
-                    disabled={page >= totalPages || pageTotal === 0}
-                    onClick={() => setSearchParams({ page: String(page + 1), search })}
-                >
-                    Next
-                </Button>
-            </div>
+            <DataTable
+                tableId="actors"
+                columns={columns}
+                data={actors}
+                getRowId={(actor) => actor.id}
+                isLoading={isLoading}
+                emptyMessage="No actors found."
+                pagination={{
+                    page,
+                    pageSize: limit,
+                    pageCount,
+                    onPageChange: (next) => setSearchParams(mergeSearchParams(searchParams, { page: next })),
+                    onPageSizeChange: (size) => setSearchParams(mergeSearchParams(searchParams, { page: 1, limit: size })),
+                }}
+            />
 
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogContent>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                         <DialogTitle>{editingActor ? 'Edit Actor' : 'New Actor'}</DialogTitle>
                     </DialogHeader>
@@ -223,12 +304,43 @@ export const Actors = () => {
                             placeholder="e.g. Kim Soo-hyun"
                             {...register('name')}
                         />
-                        <Input
-                            label="Photo URL"
-                            error={errors.photo_url?.message}
-                            placeholder="https://example.com/photo.jpg"
-                            {...register('photo_url')}
-                        />
+                        <ImageUploadField control={control} name="photo_url" label="Photo" preset="photo" />
+                        <div className="grid grid-cols-2 gap-4">
+                            <Input
+                                type="date"
+                                label="Birth Date"
+                                error={errors.birth_date?.message}
+                                {...register('birth_date')}
+                            />
+                            <Input
+                                label="Nationality"
+                                error={errors.nationality?.message}
+                                placeholder="e.g. South Korean"
+                                {...register('nationality')}
+                            />
+                        </div>
+                        <div className="w-full">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Bio</label>
+                            <textarea
+                                rows={4}
+                                className="flex w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all"
+                                placeholder="Short biography..."
+                                {...register('bio')}
+                            />
+                            {errors.bio?.message && <p className="mt-1 text-sm text-red-500">{errors.bio.message}</p>}
+                        </div>
+                        <div className="space-y-3">
+                            <p className="text-sm font-medium text-gray-700">Social Links</p>
+                            {ACTOR_SOCIAL_PLATFORMS.map(({ platform, label, placeholder }) => (
+                                <Input
+                                    key={platform}
+                                    label={label}
+                                    error={errors.social_links?.[platform]?.message}
+                                    placeholder={placeholder}
+                                    {...register(`social_links.${platform}`)}
+                                />
+                            ))}
+                        </div>
                         <DialogFooter>
                             <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
                             <Button type="submit">{editingActor ? 'Update' : 'Create'}</Button>
@@ -236,6 +348,27 @@ export const Actors = () => {
                     </form>
                 </DialogContent>
             </Dialog>
+
+            <DuplicateFinderDialog
+                open={isDuplicatesOpen}
+                onOpenChange={setIsDuplicatesOpen}
+                title="Duplicate Actors"
+                noun="actor"
+                loadItems={loadAllActors}
+                keys={duplicateKeys}
+                renderItem={(actor) => (
+                    <>
+                        {actor.photo_url ? (
+                            <img src={actor.photo_url} alt="" className="h-8 w-8 flex-shrink-0 rounded-full object-cover" />
+                        ) : (
+                            <User className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                        )}
+                        {actor.nationality && <span className="truncate text-xs text-gray-500">{actor.nationality}</span>}
+                    </>
+                )}
+                merge={mergeActors}
+                onMerged={fetchActors}
+            />
         </div>
     );
 };
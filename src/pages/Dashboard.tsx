@@ -1,34 +1,125 @@
 import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '../components/ui/Card';
-import { Users, Film, PlayCircle, Eye } from 'lucide-react';
+import { Users, Film, PlayCircle, Eye, TrendingUp, TrendingDown } from 'lucide-react';
 import { analyticsService } from '../services/analytics';
-import type { DashboardStats } from '../types';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { DashboardStats, LeaderboardWindow, TimeSeriesInterval, TimeSeriesPoint } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Skeleton } from '../components/ui/Skeleton';
+import { Select } from '../components/ui/Select';
+import { DateRangePicker } from '../components/ui/DateRangePicker';
+import { Button } from '../components/ui/Button';
+import { LeaderboardWindowSelect, TopDramasTable, TopEpisodesTable } from '../components/analytics/Leaderboard';
+import { formatShortDate, isDateInput, lastNDays, previousRange, type DateRange } from '../utils/date';
+import { cn } from '../utils/cn';
+import { usePermission } from '../hooks/usePermission';
+
+type ChartMetric = 'views' | 'new_users' | 'new_episodes';
+
+const metricLabels: Record<ChartMetric, string> = {
+    views: 'Views',
+    new_users: 'New Users',
+    new_episodes: 'New Episodes',
+};
+
+const INTERVAL_OPTIONS: { label: string; value: TimeSeriesInterval }[] = [
+    { label: 'Daily', value: 'day' },
+    { label: 'Weekly', value: 'week' },
+    { label: 'Monthly', value: 'month' },
+];
+
+// The range and interval come from the URL, so anything hand-edited falls back to the defaults
+const parseRangeParams = (params: URLSearchParams): DateRange & { interval: TimeSeriesInterval } => {
+    const from = params.get('from') || '';
+    const to = params.get('to') || '';
+    const interval = INTERVAL_OPTIONS.find((option) => option.value === params.get('interval'))?.value ?? 'day';
+    const range = isDateInput(from) && isDateInput(to) && from <= to ? { from, to } : lastNDays(7);
+    return { ...range, interval };
+};
+
+// Percentage change between two periods, null when there is no baseline to compare against
+const percentChange = (current?: number, previous?: number) => {
+    if (current === undefined || !previous) return null;
+    return ((current - previous) / previous) * 100;
+};
 
 export const Dashboard = () => {
     const [stats, setStats] = useState<DashboardStats | null>(null);
+    const [previousStats, setPreviousStats] = useState<DashboardStats | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [series, setSeries] = useState<TimeSeriesPoint[]>([]);
+    const [previousSeries, setPreviousSeries] = useState<TimeSeriesPoint[]>([]);
+    const [isChartLoading, setIsChartLoading] = useState(true);
+    const [metric, setMetric] = useState<ChartMetric>('views');
+    const [leaderboardRange, setLeaderboardRange] = useState<LeaderboardWindow>('7d');
+    const [searchParams, setSearchParams] = useSearchParams();
+    const canViewAnalytics = usePermission('analytics:view');
+
+    const { from, to, interval } = parseRangeParams(searchParams);
 
     useEffect(() => {
+        let isCurrent = true;
+        const range = { from, to };
+        const previous = previousRange(range);
+
         const fetchStats = async () => {
             try {
-                const data = await analyticsService.getDashboardStats();
-                setStats(data);
+                const [current, before] = await Promise.all([
+                    analyticsService.getDashboardStats(range),
+                    analyticsService.getDashboardStats(previous),
+                ]);
+                if (!isCurrent) return;
+                setStats(current);
+                setPreviousStats(before);
             } catch (error) {
                 console.error('Failed to fetch dashboard stats', error);
             } finally {
-                setIsLoading(false);
+                if (isCurrent) setIsLoading(false);
+            }
+        };
+
+        const fetchSeries = async () => {
+            setIsChartLoading(true);
+            try {
+                const [current, before] = await Promise.all([
+                    analyticsService.getTimeSeries({ ...range, interval }),
+                    analyticsService.getTimeSeries({ ...previous, interval }),
+                ]);
+                if (!isCurrent) return;
+                setSeries(current);
+                setPreviousSeries(before);
+            } catch (error) {
+                console.error('Failed to fetch analytics time series', error);
+                if (!isCurrent) return;
+                setSeries([]);
+                setPreviousSeries([]);
+            } finally {
+                if (isCurrent) setIsChartLoading(false);
             }
         };
 
         fetchStats();
-    }, []);
+        fetchSeries();
+        return () => {
+            isCurrent = false;
+        };
+    }, [from, to, interval]);
+
+    const handleRangeChange = (range: DateRange) => {
+        setSearchParams({ from: range.from, to: range.to, interval });
+    };
+
+    const handleIntervalChange = (value: string) => {
+        setSearchParams({ from, to, interval: value });
+    };
 
     const statCards = [
         {
             title: 'Total Users',
             value: stats?.total_users || 0,
+            periodLabel: 'new users',
+            period: stats?.new_users_count,
+            previous: previousStats?.new_users_count,
             icon: Users,
             color: 'text-blue-600',
             bg: 'bg-blue-50',
@@ -36,6 +127,9 @@ export const Dashboard = () => {
         {
             title: 'Total Dramas',
             value: stats?.total_dramas || 0,
+            periodLabel: 'new dramas',
+            period: stats?.new_dramas_count,
+            previous: previousStats?.new_dramas_count,
             icon: Film,
             color: 'text-purple-600',
             bg: 'bg-purple-50',
@@ -43,6 +137,9 @@ export const Dashboard = () => {
         {
             title: 'Total Episodes',
             value: stats?.total_episodes || 0,
+            periodLabel: 'new episodes',
+            period: stats?.new_episodes_count,
+            previous: previousStats?.new_episodes_count,
             icon: PlayCircle,
             color: 'text-green-600',
             bg: 'bg-green-50',
@@ -50,22 +147,21 @@ export const Dashboard = () => {
         {
             title: 'Total Views',
             value: stats?.total_views || 0,
+            periodLabel: 'views',
+            period: stats?.new_views_count,
+            previous: previousStats?.new_views_count,
             icon: Eye,
             color: 'text-orange-600',
             bg: 'bg-orange-50',
         },
     ];
 
-    // Mock data for chart for now until we have detailed analytics endpoint
-    const chartData = [
-        { name: 'Mon', views: 400 },
-        { name: 'Tue', views: 300 },
-        { name: 'Wed', views: 200 },
-        { name: 'Thu', views: 278 },
-        { name: 'Fri', views: 189 },
-        { name: 'Sat', views: 239 },
-        { name: 'Sun', views: 349 },
-    ];
+    // Line up the previous period bucket-by-bucket so the bars can be compared side by side
+    const chartData = series.map((point, index) => ({
+        name: formatShortDate(point.date),
+        current: point[metric],
+        previous: previousSeries[index]?.[metric] ?? 0,
+    }));
 
     if (isLoading) {
         return (
@@ -100,40 +196,85 @@ export const Dashboard = () => {
 
     return (
         <div className="space-y-6">
-            <h1 className="text-2xl font-bold text-gray-800">Dashboard</h1>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h1 className="text-2xl font-bold text-gray-800">Dashboard</h1>
+                <div className="flex flex-wrap items-center gap-2">
+                    <DateRangePicker value={{ from, to }} onChange={handleRangeChange} />
+                    <Select
+                        className="w-[130px]"
+                        aria-label="Interval"
+                        value={interval}
+                        onChange={(e) => handleIntervalChange(e.target.value)}
+                        options={INTERVAL_OPTIONS}
+                    />
+                </div>
+            </div>
 
             <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
-                {statCards.map((card) => (
-                    <Card key={card.title}>
-                        <CardContent className="flex items-center gap-4 p-6">
-                            <div className={`rounded-xl p-3 ${card.bg}`}>
-                                <card.icon className={`h-6 w-6 ${card.color}`} />
-                            </div>
-                            <div>
-                                <p className="text-sm font-medium text-gray-500">{card.title}</p>
-                                <h3 className="text-2xl font-bold text-gray-900">{card.value}</h3>
-                            </div>
-                        </CardContent>
-                    </Card>
-                ))}
+                {statCards.map((card) => {
+                    const delta = percentChange(card.period, card.previous);
+                    const DeltaIcon = delta !== null && delta < 0 ? TrendingDown : TrendingUp;
+
+                    return (
+                        <Card key={card.title}>
+                            <CardContent className="flex items-center gap-4 p-6">
+                                <div className={`rounded-xl p-3 ${card.bg}`}>
+                                    <card.icon className={`h-6 w-6 ${card.color}`} />
+                                </div>
+                                <div>
+                                    <p className="text-sm font-medium text-gray-500">{card.title}</p>
+                                    <h3 className="text-2xl font-bold text-gray-900">{card.value}</h3>
+                                    {card.period !== undefined && (
+                                        <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                                            {delta !== null && (
+                                                <span className={cn('inline-flex items-center gap-0.5 font-medium', delta < 0 ? 'text-red-600' : 'text-green-600')}>
+                                                    <DeltaIcon className="h-3 w-3" />
+                                                    {delta > 0 ? '+' : ''}{delta.toFixed(1)}%
+                                                </span>
+                                            )}
+                                            <span>{card.period} {card.periodLabel} this period</span>
+                                        </p>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    );
+                })}
             </div>
 
             <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
                 <Card className="col-span-1">
-                    <CardHeader>
-                        <h3 className="text-lg font-semibold text-gray-800">Views Overview (Mock)</h3>
+                    <CardHeader className="flex items-center justify-between gap-4">
+                        <h3 className="text-lg font-semibold text-gray-800">{metricLabels[metric]} Overview</h3>
+                        <Select
+                            className="w-[150px]"
+                            aria-label="Metric"
+                            value={metric}
+                            onChange={(e) => setMetric(e.target.value as ChartMetric)}
+                            options={Object.entries(metricLabels).map(([value, label]) => ({ label, value }))}
+                        />
                     </CardHeader>
                     <CardContent>
                         <div className="h-80 w-full">
-                            <ResponsiveContainer width="100%" height="100%">
-                                <BarChart data={chartData}>
-                                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                                    <XAxis dataKey="name" axisLine={false} tickLine={false} />
-                                    <YAxis axisLine={false} tickLine={false} />
-                                    <Tooltip cursor={{ fill: 'transparent' }} />
-                                    <Bar dataKey="views" fill="#0ea5e9" radius={[4, 4, 0, 0]} />
-                                </BarChart>
-                            </ResponsiveContainer>
+                            {isChartLoading ? (
+                                <Skeleton className="h-full w-full rounded-md" />
+                            ) : chartData.length === 0 ? (
+                                <div className="flex h-full items-center justify-center text-sm text-gray-400">
+                                    No data for the selected period.
+                                </div>
+                            ) : (
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={chartData}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                                        <XAxis dataKey="name" axisLine={false} tickLine={false} />
+                                        <YAxis axisLine={false} tickLine={false} allowDecimals={false} />
+                                        <Tooltip cursor={{ fill: 'transparent' }} />
+                                        <Legend />
+                                        <Bar dataKey="previous" name="Previous period" fill="#cbd5e1" radius={[4, 4, 0, 0]} />
+                                        <Bar dataKey="current" name="Selected period" fill="#0ea5e9" radius={[4, 4, 0, 0]} />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            )}
                         </div>
                     </CardContent>
                 </Card>
@@ -150,6 +291,24 @@ export const Dashboard = () => {
                     </CardContent>
                 </Card>
             </div>
+
+            {canViewAnalytics && (
+                <Card>
+                    <CardHeader className="flex items-center justify-between gap-4">
+                        <h3 className="text-lg font-semibold text-gray-800">Top Content</h3>
+                        <div className="flex items-center gap-2">
+                            <LeaderboardWindowSelect value={leaderboardRange} onChange={setLeaderboardRange} />
+                            <Link to={`/analytics/top-content?window=${leaderboardRange}`}>
+                                <Button variant="outline" size="sm">View all</Button>
+                            </Link>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="grid grid-cols-1 gap-6 p-0 xl:grid-cols-2">
+                        <TopDramasTable range={leaderboardRange} limit={5} />
+                        <TopEpisodesTable range={leaderboardRange} limit={5} />
+                    </CardContent>
+                </Card>
+            )}
         </div>
     );
 };
@@ -1,21 +1,54 @@
 import { useEffect, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { genreService } from '@/services/genre';
+import { dramaService } from '@/services/drama';
+import { trashService } from '@/services/trash';
 import type { Genre } from '@/types';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { Checkbox } from '@/components/ui/Checkbox';
 import { Skeleton } from '@/components/ui/Skeleton';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
+import { DataTable } from '@/components/ui/DataTable';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/Dialog';
-import { Plus, Search, Pencil, Trash2 } from 'lucide-react';
+import { ArrowUpDown, Copy, Plus, Search, Pencil, Star, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { confirmAction } from '@/stores/confirmStore';
+import { ExportButton } from '@/components/ui/ExportButton';
+import { DuplicateFinderDialog } from '@/components/ui/DuplicateFinderDialog';
+import { GenreOrderDialog } from '@/components/genres/GenreOrderDialog';
+import type { ExportColumn } from '@/utils/export';
+import { fetchAllPages } from '@/utils/pagination';
+import { mergeSearchParams, parsePageSize } from '@/utils/table';
+import { toastWithUndo } from '@/utils/undo';
+import { mergeGenres } from '@/utils/merge';
+import { nextGenrePosition } from '@/utils/genres';
+import { cn } from '@/utils/cn';
+import { SLUG_PATTERN, slugify, uniqueSlug } from '@/utils/slug';
+import type { ColumnDef } from '@tanstack/react-table';
+
+const EXPORT_FETCH_LIMIT = 100;
+
+const exportColumns: ExportColumn<Genre>[] = [
+    { header: 'ID', value: (g) => g.id, width: 38 },
+    { header: 'Name', value: (g) => g.name, width: 30 },
+    { header: 'Slug', value: (g) => g.slug, width: 30 },
+    { header: 'Position', value: (g) => g.position, width: 10 },
+    { header: 'Featured', value: (g) => !!g.is_featured, width: 10 },
+    { header: 'Dramas', value: (g) => g.drama_count, width: 10 },
+];
+
+const loadAllGenres = () =>
+    fetchAllPages<Genre>((p) => genreService.getAll({ page: p, limit: EXPORT_FETCH_LIMIT }), { limit: EXPORT_FETCH_LIMIT });
+
+const duplicateKeys = [{ reason: 'same_slug' as const, get: (genre: Genre) => genre.slug }];
 
 const genreSchema = z.object({
     name: z.string().min(1, 'Name is required'),
-    slug: z.string().optional(),
+    slug: z.string().regex(SLUG_PATTERN, 'Use lowercase letters, numbers and single dashes').optional().or(z.literal('')),
+    is_featured: z.boolean(),
 });
 
 type GenreFormData = z.infer<typeof genreSchema>;
@@ -24,23 +57,28 @@ export const Genres = () => {
     const [genres, setGenres] = useState<Genre[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchParams, setSearchParams] = useSearchParams();
-    const [pageTotal, setPageTotal] = useState(0);
+    const [pageCount, setPageCount] = useState<number | undefined>(undefined);
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingGenre, setEditingGenre] = useState<Genre | null>(null);
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+    const [isOrderOpen, setIsOrderOpen] = useState(false);
+    // New genres take their slug from the name until the slug is typed in by hand
+    const [isSlugEdited, setIsSlugEdited] = useState(false);
 
     const page = Number(searchParams.get('page')) || 1;
     const search = searchParams.get('search') || '';
-    const limit = 10;
-    const totalPages = Math.ceil(pageTotal / limit);
+    const limit = parsePageSize(searchParams.get('limit'));
 
     const {
         register,
         handleSubmit,
         reset,
         setValue,
-        formState: { errors },
+        setError,
+        formState: { errors, isSubmitting },
     } = useForm<GenreFormData>({
         resolver: zodResolver(genreSchema),
+        defaultValues: { name: '', slug: '', is_featured: false },
     });
 
     const fetchGenres = async () => {
@@ -50,11 +88,11 @@ export const Genres = () => {
             // Handle flat array response
             if (Array.isArray(data)) {
                 setGenres(data);
-                setPageTotal(data.length); // Fallback for pagination
+                setPageCount(undefined); // No totals, the table pages while results are full
             } else {
                 // Fallback if structure changes back
                 setGenres((data as any).items || []);
-                setPageTotal((data as any).total || 0);
+                setPageCount(Math.ceil(((data as any).total || 0) / limit));
             }
         } catch (error) {
             toast.error('Failed to fetch genres');
@@ -65,35 +103,58 @@ export const Genres = () => {
 
     useEffect(() => {
         fetchGenres();
-    }, [page, search]);
+    }, [page, search, limit]);
 
     const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         const formData = new FormData(e.currentTarget);
         const query = formData.get('search') as string;
-        setSearchParams({ page: '1', search: query });
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, search: query }));
     };
 
     const handleEdit = (genre: Genre) => {
         setEditingGenre(genre);
-        setValue('name', genre.name);
-        setValue('slug', genre.slug);
+        // Existing slugs stay put when renaming, since app links use them
+        setIsSlugEdited(true);
+        reset({ name: genre.name, slug: genre.slug, is_featured: !!genre.is_featured });
         setIsDialogOpen(true);
     };
 
     const handleCreate = () => {
         setEditingGenre(null);
-        reset();
+        setIsSlugEdited(false);
+        reset({ name: '', slug: '', is_featured: false });
         setIsDialogOpen(true);
     };
 
     const onSubmit = async (data: GenreFormData) => {
         try {
+            // Checked against every genre, not just the visible page
+            const allGenres = await loadAllGenres();
+            const others = allGenres.filter((genre) => genre.id !== editingGenre?.id);
+            const taken = new Set(others.map((genre) => genre.slug));
+            const slug = isSlugEdited && data.slug ? data.slug : uniqueSlug(slugify(data.name), taken);
+            if (!slug) {
+                setError('slug', { message: 'Could not build a slug from this name, please enter one' });
+                return;
+            }
+            if (taken.has(slug)) {
+                const owner = others.find((genre) => genre.slug === slug);
+                setError('slug', { message: `Already used by "${owner?.name}". Try "${uniqueSlug(slug, taken)}".` });
+                return;
+            }
+            const payload = { ...data, slug };
+
             if (editingGenre) {
-                await genreService.update(editingGenre.id, data);
-                toast.success('Genre updated');
+                // PUT replaces the genre, so the rail position goes along
+                const { id, name, slug: previousSlug, is_featured, position } = editingGenre;
+                await genreService.update(id, { ...payload, position });
+                toastWithUndo('Genre updated', {
+                    undo: () => genreService.update(id, { name, slug: previousSlug, is_featured: !!is_featured, position }),
+                    onUndone: fetchGenres,
+                });
             } else {
-                await genreService.create(data);
+                await genreService.create({ ...payload, position: nextGenrePosition(allGenres) });
                 toast.success('Genre created');
             }
             setIsDialogOpen(false);
@@ -103,25 +164,147 @@ export const Genres = () => {
         }
     };
 
-    const handleDelete = async (id: string) => {
-        if (!confirm('Delete this genre?')) return;
+    const handleToggleFeatured = async (genre: Genre) => {
+        const { id, name, slug, position } = genre;
+        const is_featured = !genre.is_featured;
+        try {
+            // PUT replaces the genre, so name, slug and position go along
+            await genreService.update(id, { name, slug, position, is_featured });
+            toastWithUndo(is_featured ? `${name} is now featured` : `${name} is no longer featured`, {
+                undo: () => genreService.update(id, { name, slug, position, is_featured: !is_featured }),
+                onUndone: fetchGenres,
+            });
+            fetchGenres();
+        } catch (error) {
+            console.error('Failed to update genre', error);
+            toast.error('Failed to update genre');
+        }
+    };
+
+    const handleDelete = async (genre: Genre) => {
+        const confirmed = await confirmAction({
+            title: `Delete "${genre.name}"?`,
+            description: 'The genre moves to the trash and can be restored from there.',
+            confirmLabel: 'Move to Trash',
+            errorTypeToConfirm: genre.name,
+            impact: async () => {
+                const { total } = await dramaService.getAll({ genre: genre.id, limit: 1 });
+                return total > 0
+                    ? { items: [`Used by ${total} ${total === 1 ? 'drama' : 'dramas'}, which will lose this genre`], typeToConfirm: genre.name }
+                    : { items: ['Not used by any drama'] };
+            },
+        });
+        if (!confirmed) return;
         try {
-            await genreService.delete(id);
-            toast.success('Genre deleted');
+            await genreService.delete(genre.id);
+            toastWithUndo('Genre moved to trash', {
+                undo: () => trashService.restore('genre', genre.id),
+                onUndone: fetchGenres,
+            });
             fetchGenres();
         } catch (error) {
             toast.error('Failed to delete genre');
         }
     };
 
+    const columns: ColumnDef<Genre>[] = [
+        {
+            id: 'no',
+            header: 'No',
+            enableHiding: false,
+            cell: ({ row }) => (page - 1) * limit + row.index + 1,
+            meta: { skeleton: <Skeleton className="h-4 w-8" /> },
+        },
+        {
+            id: 'position',
+            header: 'Order',
+            cell: ({ row }) => row.original.position ?? <span className="text-gray-400">—</span>,
+            meta: { skeleton: <Skeleton className="h-4 w-8" /> },
+        },
+        {
+            id: 'name',
+            header: 'Name',
+            cell: ({ row }) => row.original.name,
+            meta: { cellClassName: 'font-medium', skeleton: <Skeleton className="h-4 w-48" /> },
+        },
+        {
+            id: 'slug',
+            header: 'Slug',
+            cell: ({ row }) => row.original.slug,
+            meta: { cellClassName: 'text-gray-500', skeleton: <Skeleton className="h-4 w-32" /> },
+        },
+        {
+            id: 'drama_count',
+            header: 'Dramas',
+            cell: ({ row }) => (
+                <Link to={`/dramas?genre=${row.original.id}`} className="text-primary-600 hover:underline">
+                    {(row.original.drama_count ?? 0).toLocaleString()}
+                </Link>
+            ),
+            meta: { skeleton: <Skeleton className="h-4 w-10" /> },
+        },
+        {
+            id: 'is_featured',
+            header: 'Featured',
+            cell: ({ row }) => (
+                <button
+                    type="button"
+                    onClick={() => handleToggleFeatured(row.original)}
+                    title={row.original.is_featured ? 'Remove from featured' : 'Feature on the home screen'}
+                    aria-pressed={!!row.original.is_featured}
+                    className="rounded p-1 hover:bg-gray-100"
+                >
+                    <Star className={cn('h-4 w-4', row.original.is_featured ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300')} />
+                </button>
+            ),
+            meta: { skeleton: <Skeleton className="h-4 w-4" /> },
+        },
+        {
+            id: 'actions',
+            header: 'Actions',
+            enableHiding: false,
+            cell: ({ row }) => (
+                <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleEdit(row.original)}><Pencil className="h-4 w-4" /></Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(row.original)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+            ),
+            meta: {
+                headerClassName: 'text-right',
+                cellClassName: 'text-right',
+                skeleton: (
+                    <div className="flex justify-end gap-2">
+                        <Skeleton className="h-8 w-8 rounded-md" />
+                        <Skeleton className="h-8 w-8 rounded-md" />
+                    </div>
+                ),
+            },
+        },
+    ];
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold text-gray-800">Genres</h1>
-                <Button onClick={handleCreate}>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Genre
-                </Button>
+                <div className="flex items-center gap-2">
+                    <ExportButton
+                        name="Genres"
+                        columns={exportColumns}
+                        fetchRows={() => fetchAllPages((p) => genreService.getAll({ page: p, limit: EXPORT_FETCH_LIMIT, search }), { limit: EXPORT_FETCH_LIMIT })}
+                    />
+                    <Button variant="outline" onClick={() => setIsOrderOpen(true)}>
+                        <ArrowUpDown className="mr-2 h-4 w-4" />
+                        Reorder Rails
+                    </Button>
+                    <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Find Duplicates
+                    </Button>
+                    <Button onClick={handleCreate}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Genre
+                    </Button>
+                </div>
             </div>
 
             <div className="bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
@@ -139,70 +322,21 @@ export const Genres = () => {
                 </form>
             </div>
 
-            <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
-                <Table>
-                    <TableHeader>
-                        <TableRow>
-                            <TableHead>No</TableHead>
-                            <TableHead>Name</TableHead>
-                            <TableHead>Slug</TableHead>
-                            <TableHead className="text-right">Actions</TableHead>
-                        </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                        {isLoading ? (
-                            Array.from({ length: 5 }).map((_, i) => (
-                                <TableRow key={i}>
-                                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
-                                    <TableCell><Skeleton className="h-4 w-48" /></TableCell>
-                                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex justify-end gap-2">
-                                            <Skeleton className="h-8 w-8 rounded-md" />
-                                            <Skeleton className="h-8 w-8 rounded-md" />
-                                        </div>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        ) : genres.length === 0 ? (
-                            <TableRow><TableCell colSpan={4} className="text-center py-8">No genres found.</TableCell></TableRow>
-                        ) : (
-                            genres.map((genre, index) => (
-                                <TableRow key={genre.id}>
-                                    <TableCell>{(page - 1) * limit + index + 1}</TableCell>
-                                    <TableCell className="font-medium">{genre.name}</TableCell>
-                                    <TableCell className="text-gray-500">{genre.slug}</TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex justify-end gap-2">
-                                            <Button size="sm" variant="outline" onClick={() => handleEdit(genre)}><Pencil className="h-4 w-4" /></Button>
-                                            <Button size="sm" variant="danger" onClick={() => handleDelete(genre.id)}><Trash2 className="h-4 w-4" /></Button>
-                                        </div>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        )}
-                    </TableBody>
-                </Table>
-            </div>
-
-            {/* Pagination */}
-            <div className="flex items-center justify-end gap-2">
-                <Button
-                    variant="outline"
-                    disabled={page <= 1}
-                    onClick={() => setSearchParams({ page: String(page - 1), search })}
-                >
-                    Previous
-                </Button>
-                <span className="text-sm text-gray-600">Page {page} of {totalPages || 1}</span>
-                <Button
-                    variant="outline"
-                    disabled={page >= totalPages || pageTotal === 0}
-                    onClick={() => setSearchParams({ page: String(page + 1), search })}
-                >
-                    Next
-                </Button>
-            </div>
+            <DataTable
+                tableId="genres"
+                columns={columns}
+                data={genres}
+                getRowId={(genre) => genre.id}
+                isLoading={isLoading}
+                emptyMessage="No genres found."
+                pagination={{
+                    page,
+                    pageSize: limit,
+                    pageCount,
+                    onPageChange: (next) => setSearchParams(mergeSearchParams(searchParams, { page: next })),
+                    onPageSizeChange: (size) => setSearchParams(mergeSearchParams(searchParams, { page: 1, limit: size })),
+                }}
+            />
 
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
                 <DialogContent>
@@ -214,21 +348,46 @@ export const Genres = () => {
                             label="Genre Name"
                             error={errors.name?.message}
                             placeholder="e.g. Action"
-                            {...register('name')}
-                        />
-                        <Input
-                            label="Slug (Optional)"
-                            error={errors.slug?.message}
-                            placeholder="e.g. action-movie"
-                            {...register('slug')}
+                            {...register('name', {
+                                onChange: (e) => {
+                                    if (!isSlugEdited) setValue('slug', slugify(e.target.value));
+                                },
+                            })}
                         />
+                        <div>
+                            <Input
+                                label="Slug"
+                                error={errors.slug?.message}
+                                placeholder="e.g. action-movie"
+                                {...register('slug', { onChange: () => setIsSlugEdited(true) })}
+                            />
+                            {!isSlugEdited && <p className="mt-1 text-xs text-gray-500">Generated from the name; a number is added if it is taken.</p>}
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <Checkbox {...register('is_featured')} />
+                            Feature on the app's home screen
+                        </label>
                         <DialogFooter>
                             <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
-                            <Button type="submit">{editingGenre ? 'Update' : 'Create'}</Button>
+                            <Button type="submit" isLoading={isSubmitting}>{editingGenre ? 'Update' : 'Create'}</Button>
                         </DialogFooter>
                     </form>
                 </DialogContent>
             </Dialog>
+
+            <GenreOrderDialog open={isOrderOpen} onOpenChange={setIsOrderOpen} onSaved={fetchGenres} />
+
+            <DuplicateFinderDialog
+                open={isDuplicatesOpen}
+                onOpenChange={setIsDuplicatesOpen}
+                title="Duplicate Genres"
+                noun="genre"
+                loadItems={loadAllGenres}
+                keys={duplicateKeys}
+                renderItem={(genre) => genre.slug && <span className="truncate font-mono text-xs text-gray-500">{genre.slug}</span>}
+                merge={mergeGenres}
+                onMerged={fetchGenres}
+            />
         </div>
     );
 };
@@ -8,6 +8,7 @@ import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { toast } from 'sonner';
 import { useState } from 'react';
+import { isStaffRole } from '../utils/permissions';
 
 const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
@@ -35,15 +36,15 @@ export const Login = () => {
             const response = await authService.login(data);
             if (response.success) {
                 // According to API_DOCS.md, response structure is { success: true, data: { token, user } }
-                const { token, user } = response.data;
+                const { token, refresh_token, user } = response.data;
 
-                // Check if user is admin
-                if (user.role !== 'admin') {
-                    toast.error('Access denied. Admin only.');
+                // Only staff roles may use the panel
+                if (!isStaffRole(user.role)) {
+                    toast.error('Access denied. Staff only.');
                     return;
                 }
 
-                login(user, token);
+                login(user, token, refresh_token);
                 toast.success('Welcome back!');
                 navigate('/');
             }
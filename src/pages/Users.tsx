@@ -1,30 +1,69 @@
 import { useEffect, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { userService } from '@/services/user';
 import type { User } from '@/types';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Skeleton } from '@/components/ui/Skeleton';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
-import { Search, Trash2 } from 'lucide-react';
+import { DataTable } from '@/components/ui/DataTable';
+import { Search, Trash2, ShieldBan, ShieldCheck, History } from 'lucide-react';
 import { toast } from 'sonner';
+import { confirmAction } from '@/stores/confirmStore';
 import { cn } from '@/utils/cn';
+import { usePermissions } from '@/hooks/usePermission';
+import { useAuthStore } from '@/stores/authStore';
+import { ROLES, getRoleLabel, isStaffRole, type Role } from '@/utils/permissions';
+import { Select } from '@/components/ui/Select';
+import { BanUserDialog } from '@/components/users/BanUserDialog';
+import { BanHistoryDialog } from '@/components/users/BanHistoryDialog';
+import { UserStatusBadge } from '@/components/users/UserStatusBadge';
+import { ExportButton } from '@/components/ui/ExportButton';
+import type { ExportColumn } from '@/utils/export';
+import { fetchAllPages } from '@/utils/pagination';
+import { formatSortParam, mergeSearchParams, parsePageSize, parseSortParam, type SortKeyColumns } from '@/utils/table';
+import { toastWithUndo } from '@/utils/undo';
+import type { ColumnDef } from '@tanstack/react-table';
+
+const EXPORT_FETCH_LIMIT = 100;
+
+// Only the join date has an API sort key
+const SORT_COLUMNS: SortKeyColumns = {
+    latest: { id: 'created_at', desc: true },
+    oldest: { id: 'created_at', desc: false },
+};
+
+const exportColumns: ExportColumn<User>[] = [
+    { header: 'ID', value: (u) => u.id, width: 38 },
+    { header: 'Name', value: (u) => u.name, width: 25 },
+    { header: 'Email', value: (u) => u.email, width: 35 },
+    { header: 'Role', value: (u) => getRoleLabel(u.role), width: 14 },
+    { header: 'Status', value: (u) => (u.is_banned ? 'Banned' : 'Active'), width: 10 },
+    { header: 'Ban Reason', value: (u) => u.ban_reason, width: 30 },
+    { header: 'Banned Until', value: (u) => (u.banned_until ? new Date(u.banned_until) : null), width: 14 },
+    { header: 'Joined', value: (u) => (u.created_at ? new Date(u.created_at) : null), width: 14 },
+];
 
 export const Users = () => {
     const [users, setUsers] = useState<User[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchParams, setSearchParams] = useSearchParams();
     const [pageTotal, setPageTotal] = useState(0);
+    const can = usePermissions();
+    const currentUserId = useAuthStore((state) => state.user?.id);
+    const [banningUser, setBanningUser] = useState<User | null>(null);
+    const [historyUser, setHistoryUser] = useState<User | null>(null);
 
     const page = Number(searchParams.get('page')) || 1;
     const search = searchParams.get('search') || '';
-    const limit = 10;
+    const status = (searchParams.get('status') || '') as '' | 'active' | 'banned';
+    const sort = searchParams.get('sort') || '';
+    const limit = parsePageSize(searchParams.get('limit'));
     const totalPages = Math.ceil(pageTotal / limit);
 
     const fetchUsers = async () => {
         setIsLoading(true);
         try {
-            const data = await userService.getAll({ page, limit, search });
+            const data = await userService.getAll({ page, limit, search, status: status || undefined, sort: sort || undefined });
             setUsers(data.items);
             setPageTotal(data.total);
         } catch (error) {
@@ -36,17 +75,36 @@ export const Users = () => {
 
     useEffect(() => {
         fetchUsers();
-    }, [page, search]);
+    }, [page, search, status, sort, limit]);
 
     const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         const formData = new FormData(e.currentTarget);
         const query = formData.get('search') as string;
-        setSearchParams({ page: '1', search: query });
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, search: query }));
+    };
+
+    const handleStatusChange = (value: string) => {
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, status: value }));
     };
 
     const handleDelete = async (user: User) => {
-        if (!confirm(`Are you sure you want to delete ${user.name}? This action cannot be undone.`)) return;
+        const confirmed = await confirmAction({
+            title: `Delete ${user.name}?`,
+            description: 'The account and its data are removed permanently. This cannot be undone.',
+            confirmLabel: 'Delete User',
+            typeToConfirm: user.email,
+            impact: async () => {
+                const activity = await userService.getActivity(user.id);
+                return {
+                    items: [
+                        `${activity.episodes_watched} watched ${activity.episodes_watched === 1 ? 'episode' : 'episodes'} in their history`,
+                        `${activity.favorites_count} ${activity.favorites_count === 1 ? 'favorite' : 'favorites'}`,
+                    ],
+                };
+            },
+        });
+        if (!confirmed) return;
 
         try {
             await userService.deleteUser(user.id);
@@ -57,13 +115,162 @@ export const Users = () => {
         }
     };
 
+    const handleRoleChange = async (user: User, role: Role) => {
+        if (role === user.role) return;
+        try {
+            await userService.updateRole(user.id, role);
+            toastWithUndo(`${user.name} is now ${getRoleLabel(role)}`, {
+                undo: () => userService.updateRole(user.id, user.role as Role),
+                onUndone: fetchUsers,
+            });
+            fetchUsers();
+        } catch (error) {
+            console.error('Failed to change role', error);
+            toast.error('Failed to change role');
+        }
+    };
+
+    const handleUnban = async (user: User) => {
+        try {
+            await userService.unban(user.id);
+            toast.success(`${user.name} has been unbanned`);
+            fetchUsers();
+        } catch (error) {
+            console.error('Failed to unban user', error);
+            toast.error('Failed to unban user');
+        }
+    };
+
+    const columns: ColumnDef<User>[] = [
+        {
+            id: 'no',
+            header: 'No',
+            enableHiding: false,
+            cell: ({ row }) => (page - 1) * limit + row.index + 1,
+            meta: { skeleton: <Skeleton className="h-4 w-8" /> },
+        },
+        {
+            id: 'name',
+            header: 'User',
+            cell: ({ row }) => (
+                <div className="flex items-center gap-3">
+                    <div className="h-8 w-8 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 font-bold">
+                        {row.original.name.charAt(0).toUpperCase()}
+                    </div>
+                    <Link to={`/users/${row.original.id}`} className="font-medium hover:text-primary-600">{row.original.name}</Link>
+                </div>
+            ),
+            meta: { skeleton: <Skeleton className="h-4 w-48" /> },
+        },
+        {
+            id: 'email',
+            header: 'Email',
+            cell: ({ row }) => row.original.email,
+            meta: { skeleton: <Skeleton className="h-4 w-48" /> },
+        },
+        {
+            id: 'role',
+            header: 'Role',
+            cell: ({ row }) => {
+                const user = row.original;
+                return can('users:change_role') && user.id !== currentUserId ? (
+                    <select
+                        aria-label={`Role for ${user.name}`}
+                        className="h-8 rounded-md border border-gray-300 bg-white px-2 text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        value={user.role}
+                        onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                    >
+                        {ROLES.map((role) => (
+                            <option key={role} value={role}>{getRoleLabel(role)}</option>
+                        ))}
+                    </select>
+                ) : (
+                    <span className={cn(
+                        "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+                        isStaffRole(user.role) ? "bg-purple-100 text-purple-700" : "bg-gray-100 text-gray-700"
+                    )}>
+                        {getRoleLabel(user.role)}
+                    </span>
+                );
+            },
+            meta: { skeleton: <Skeleton className="h-6 w-16 rounded-full" /> },
+        },
+        {
+            id: 'status',
+            header: 'Status',
+            cell: ({ row }) => <UserStatusBadge user={row.original} />,
+            meta: { skeleton: <Skeleton className="h-6 w-16 rounded-full" /> },
+        },
+        {
+            id: 'created_at',
+            header: 'Joined',
+            enableSorting: true,
+            cell: ({ row }) => row.original.created_at ? new Date(row.original.created_at).toLocaleDateString() : '-',
+            meta: { cellClassName: 'text-gray-500' },
+        },
+        {
+            id: 'actions',
+            header: 'Actions',
+            enableHiding: false,
+            cell: ({ row }) => {
+                const user = row.original;
+                return (
+                    <div className="flex justify-end gap-2">
+                        {can('users:ban') && (
+                            <Button size="sm" variant="ghost" onClick={() => setHistoryUser(user)} title="Ban History">
+                                <History className="h-4 w-4" />
+                            </Button>
+                        )}
+                        {can('users:ban') && !isStaffRole(user.role) && (
+                            user.is_banned ? (
+                                <Button size="sm" variant="outline" onClick={() => handleUnban(user)} title="Unban User">
+                                    <ShieldCheck className="h-4 w-4" />
+                                    <span className="ml-2">Unban</span>
+                                </Button>
+                            ) : (
+                                <Button size="sm" variant="outline" onClick={() => setBanningUser(user)} title="Ban User">
+                                    <ShieldBan className="h-4 w-4" />
+                                    <span className="ml-2">Ban</span>
+                                </Button>
+                            )
+                        )}
+                        {can('users:delete') && !isStaffRole(user.role) && (
+                            <Button
+                                size="sm"
+                                variant="danger"
+                                onClick={() => handleDelete(user)}
+                                title="Delete User"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="ml-2">Delete</span>
+                            </Button>
+                        )}
+                    </div>
+                );
+            },
+            meta: {
+                headerClassName: 'text-right',
+                cellClassName: 'text-right',
+                skeleton: <Skeleton className="h-8 w-20 ml-auto" />,
+            },
+        },
+    ];
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold text-gray-800">Users</h1>
+                <ExportButton
+                    name="Users"
+                    columns={exportColumns}
+                    fetchRows={() => fetchAllPages(
+                        (p) => userService.getAll({ page: p, limit: EXPORT_FETCH_LIMIT, search, status: status || undefined, sort: sort || undefined }),
+                        { limit: EXPORT_FETCH_LIMIT }
+                    )}
+                />
             </div>
 
-            <div className="bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
                 <form onSubmit={handleSearch} className="flex flex-1 items-center gap-2">
                     <div className="relative flex-1 max-w-sm">
                         <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
@@ -76,95 +283,46 @@ export const Users = () => {
                     </div>
                     <Button type="submit" variant="secondary">Search</Button>
                 </form>
+                <Select
+                    className="w-[160px]"
+                    aria-label="Status"
+                    value={status}
+                    onChange={(e) => handleStatusChange(e.target.value)}
+                    options={[
+                        { label: 'All Status', value: '' },
+                        { label: 'Active', value: 'active' },
+                        { label: 'Banned', value: 'banned' },
+                    ]}
+                />
             </div>
 
-            <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
-                <Table>
-                    <TableHeader>
-                        <TableRow>
-                            <TableHead>No</TableHead>
-                            <TableHead>User</TableHead>
-                            <TableHead>Email</TableHead>
-                            <TableHead>Role</TableHead>
-                            <TableHead className="text-right">Actions</TableHead>
-                        </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                        {isLoading ? (
-                            Array.from({ length: 5 }).map((_, i) => (
-                                <TableRow key={i}>
-                                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
-                                    <TableCell><Skeleton className="h-4 w-48" /></TableCell>
-                                    <TableCell><Skeleton className="h-4 w-48" /></TableCell>
-                                    <TableCell><Skeleton className="h-6 w-16 rounded-full" /></TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex justify-end gap-2">
-                                            <Skeleton className="h-8 w-20 ml-auto" />
-                                        </div>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        ) : users.length === 0 ? (
-                            <TableRow><TableCell colSpan={5} className="text-center py-8">No users found.</TableCell></TableRow>
-                        ) : (
-                            users.map((user, index) => (
-                                <TableRow key={user.id}>
-                                    <TableCell>{(page - 1) * limit + index + 1}</TableCell>
-                                    <TableCell>
-                                        <div className="flex items-center gap-3">
-                                            <div className="h-8 w-8 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 font-bold">
-                                                {user.name.charAt(0).toUpperCase()}
-                                            </div>
-                                            <span className="font-medium">{user.name}</span>
-                                        </div>
-                                    </TableCell>
-                                    <TableCell>{user.email}</TableCell>
-                                    <TableCell>
-                                        <span className={cn(
-                                            "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
-                                            user.role === 'admin' ? "bg-purple-100 text-purple-700" : "bg-gray-100 text-gray-700"
-                                        )}>
-                                            {user.role}
-                                        </span>
-                                    </TableCell>
-                                    <TableCell className="text-right">
-                                        {user.role !== 'admin' && (
-                                            <Button
-                                                size="sm"
-                                                variant="danger"
-                                                onClick={() => handleDelete(user)}
-                                                title="Delete User"
-                                            >
-                                                <Trash2 className="h-4 w-4" />
-                                                <span className="ml-2">Delete</span>
-                                            </Button>
-                                        )}
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        )}
-                    </TableBody>
-                </Table>
-            </div>
+            <DataTable
+                tableId="users"
+                columns={columns}
+                data={users}
+                getRowId={(user) => user.id}
+                isLoading={isLoading}
+                emptyMessage="No users found."
+                sorting={parseSortParam(sort, SORT_COLUMNS)}
+                onSortingChange={(sorting) => setSearchParams(mergeSearchParams(searchParams, { page: 1, sort: formatSortParam(sorting, SORT_COLUMNS) }))}
+                pagination={{
+                    page,
+                    pageSize: limit,
+                    pageCount: totalPages,
+                    onPageChange: (next) => setSearchParams(mergeSearchParams(searchParams, { page: next })),
+                    onPageSizeChange: (size) => setSearchParams(mergeSearchParams(searchParams, { page: 1, limit: size })),
+                }}
+            />
 
-            {/* Pagination */}
-            <div className="flex items-center justify-end gap-2">
-                <Button
-                    variant="outline"
-                    disabled={page <= 1}
-                    onClick={() => setSearchParams({ page: String(page - 1), search })}
-                >
-                    Previous
-                </Button>
-                <span className="text-sm text-gray-600">Page {page} of {totalPages || 1}</span>
-                <Button
-                    variant="outline"
-                    disabled={page >= totalPages || pageTotal === 0}
-                    onClick={() => setSearchParams({ page: String(page + 1), search })}
-                >
-                    Next
-                </Button>
-            </div>
+            <BanUserDialog
+                user={banningUser}
+                onOpenChange={(open) => !open && setBanningUser(null)}
+                onBanned={() => fetchUsers()}
+            />
+            <BanHistoryDialog
+                user={historyUser}
+                onOpenChange={(open) => !open && setHistoryUser(null)}
+            />
         </div>
     );
 };
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ExternalLink, Film, ScrollText, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { actorService } from '@/services/actor';
+import { dramaService } from '@/services/drama';
+import type { Actor, Drama } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader } from '@/components/ui/Card';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
+import { PublishStateBadge } from '@/components/dramas/PublishStateBadge';
+import { usePermission } from '@/hooks/usePermission';
+import { ACTOR_ROLE_LABELS, ACTOR_SOCIAL_PLATFORMS, getActorAge, getActorRole } from '@/utils/actors';
+import { parseDate } from '@/utils/date';
+import { fetchAllPages } from '@/utils/pagination';
+
+const FILMOGRAPHY_FETCH_LIMIT = 100;
+
+export const ActorDetail = () => {
+    const { id } = useParams();
+    const navigate = useNavigate();
+    const canEditDramas = usePermission('dramas:edit');
+    const canViewAudit = usePermission('audit:view');
+
+    const [actor, setActor] = useState<Actor | null>(null);
+    const [dramas, setDramas] = useState<Drama[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        if (!id) return;
+        const fetchActor = async () => {
+            setIsLoading(true);
+            try {
+                const [actorData, dramaData] = await Promise.all([
+                    actorService.getById(id),
+                    fetchAllPages<Drama>(
+                        (p) => dramaService.getAll({ page: p, limit: FILMOGRAPHY_FETCH_LIMIT, actor: id }),
+                        { limit: FILMOGRAPHY_FETCH_LIMIT }
+                    ),
+                ]);
+                setActor(actorData);
+                // Newest first; the API sorts by its own default
+                setDramas([...dramaData].sort((a, b) => b.year - a.year || a.title.localeCompare(b.title)));
+            } catch (error) {
+                console.error('Failed to load actor', error);
+                toast.error('Failed to load actor');
+                navigate('/actors');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchActor();
+    }, [id, navigate]);
+
+    if (isLoading || !actor) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-8 w-48" />
+                <Card>
+                    <CardContent className="flex items-center gap-6">
+                        <Skeleton className="h-24 w-24 rounded-full" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-6 w-48" />
+                            <Skeleton className="h-4 w-64" />
+                            <Skeleton className="h-4 w-32" />
+                        </div>
+                    </CardContent>
+                </Card>
+                <Skeleton className="h-64 w-full rounded-xl" />
+            </div>
+        );
+    }
+
+    const age = getActorAge(actor.birth_date);
+    const socialLinks = ACTOR_SOCIAL_PLATFORMS.filter(({ platform }) => actor.social_links?.[platform]);
+    const mainCount = dramas.filter((drama) => getActorRole(drama, actor.id) === 'main').length;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-4">
+                <Link to="/actors">
+                    <Button variant="ghost" size="sm">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        Back to Actors
+                    </Button>
+                </Link>
+                <h1 className="text-2xl font-bold text-gray-800">Actor Details</h1>
+                {canViewAudit && (
+                    <Link to={`/audit?entity_type=actor&entity_id=${actor.id}`} className="ml-auto">
+                        <Button variant="outline" size="sm">
+                            <ScrollText className="h-4 w-4 mr-2" />
+                            Audit Log
+                        </Button>
+                    </Link>
+                )}
+            </div>
+
+            <Card>
+                <CardContent className="flex flex-wrap items-start gap-6">
+                    {actor.photo_url ? (
+                        <img src={actor.photo_url} alt={actor.name} className="h-24 w-24 rounded-full object-cover" />
+                    ) : (
+                        <div className="h-24 w-24 rounded-full bg-gray-100 flex items-center justify-center">
+                            <User className="h-10 w-10 text-gray-400" />
+                        </div>
+                    )}
+                    <div className="flex-1 min-w-[16rem] space-y-2">
+                        <div>
+                            <h2 className="text-xl font-semibold text-gray-900">{actor.name}</h2>
+                            <p className="text-sm text-gray-500">
+                                {[
+                                    actor.nationality,
+                                    actor.birth_date && `Born ${parseDate(actor.birth_date).toLocaleDateString()}${age !== null ? ` (age ${age})` : ''}`,
+                                ].filter(Boolean).join(' · ') || 'No profile details yet'}
+                            </p>
+                        </div>
+                        {actor.bio && <p className="text-sm text-gray-700 whitespace-pre-line">{actor.bio}</p>}
+                        {socialLinks.length > 0 && (
+                            <div className="flex flex-wrap gap-3 pt-1">
+                                {socialLinks.map(({ platform, label }) => (
+                                    <a
+                                        key={platform}
+                                        href={actor.social_links?.[platform]}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="inline-flex items-center gap-1 text-sm text-primary-600 hover:underline"
+                                    >
+                                        {label}
+                                        <ExternalLink className="h-3.5 w-3.5" />
+                                    </a>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-gray-800">Filmography</h3>
+                    <p className="text-sm text-gray-500">
+                        {dramas.length} {dramas.length === 1 ? 'drama' : 'dramas'} · {mainCount} in main cast
+                    </p>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Drama</TableHead>
+                                <TableHead>Year</TableHead>
+                                <TableHead>Role</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Visibility</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {dramas.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                                        <Film className="mx-auto mb-2 h-6 w-6 text-gray-300" />
+                                        Not in the cast of any drama yet.
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                dramas.map((drama) => {
+                                    const role = getActorRole(drama, actor.id);
+                                    return (
+                                        <TableRow key={drama.id}>
+                                            <TableCell>
+                                                <div className="flex items-center gap-3">
+                                                    <img
+                                                        src={drama.poster_url}
+                                                        alt={drama.title}
+                                                        className="h-12 w-9 rounded object-cover bg-gray-100"
+                                                        onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/36x48?text=No+Img' }}
+                                                    />
+                                                    {canEditDramas ? (
+                                                        <Link to={`/dramas/${drama.id}/edit`} className="font-medium hover:text-primary-600">{drama.title}</Link>
+                                                    ) : (
+                                                        <span className="font-medium">{drama.title}</span>
+                                                    )}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>{drama.year}</TableCell>
+                                            <TableCell>
+                                                {role ? (
+                                                    <span className={`text-xs px-2 py-0.5 rounded-full ${role === 'main' ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'}`}>
+                                                        {ACTOR_ROLE_LABELS[role] ?? role}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-gray-400">—</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${drama.status === 'ongoing' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                                                    {drama.status}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell><PublishStateBadge item={drama} /></TableCell>
+                                        </TableRow>
+                                    );
+                                })
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
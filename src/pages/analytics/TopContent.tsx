@@ -0,0 +1,40 @@
+import { useSearchParams } from 'react-router-dom';
+import type { LeaderboardWindow } from '@/types';
+import { Card, CardContent, CardHeader } from '@/components/ui/Card';
+import { LeaderboardWindowSelect, TopDramasTable, TopEpisodesTable } from '@/components/analytics/Leaderboard';
+
+export const TopContent = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const range = (searchParams.get('window') || '7d') as LeaderboardWindow;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800">Top Content</h1>
+                    <p className="text-sm text-gray-500">Most-viewed dramas and episodes for the selected window.</p>
+                </div>
+                <LeaderboardWindowSelect value={range} onChange={(value) => setSearchParams({ window: value })} />
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+                <Card>
+                    <CardHeader>
+                        <h3 className="text-lg font-semibold text-gray-800">Top Dramas</h3>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <TopDramasTable range={range} limit={25} />
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <h3 className="text-lg font-semibold text-gray-800">Top Episodes</h3>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <TopEpisodesTable range={range} limit={25} />
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ColumnDef } from '@tanstack/react-table';
+import { auditService } from '@/services/audit';
+import type { AuditEntityType, AuditLogEntry, User } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { DataTable } from '@/components/ui/DataTable';
+import { DiffTable } from '@/components/ui/DiffTable';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Select } from '@/components/ui/Select';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { cn } from '@/utils/cn';
+import { diffRecords } from '@/utils/diff';
+import { mergeSearchParams, parsePageSize } from '@/utils/table';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+    drama: 'Drama',
+    season: 'Season',
+    episode: 'Episode',
+    genre: 'Genre',
+    actor: 'Actor',
+    user: 'User',
+    media: 'Media',
+};
+
+const isEntityType = (value: string | null): value is AuditEntityType => !!value && value in ENTITY_LABELS;
+
+const ACTION_STYLES: Record<string, string> = {
+    create: 'bg-green-100 text-green-700',
+    update: 'bg-blue-100 text-blue-700',
+    delete: 'bg-red-100 text-red-700',
+};
+
+// Where the entity can be viewed today; deleted entities keep their row but the link may 404
+const entityLink = (entry: AuditLogEntry) => {
+    switch (entry.entity_type) {
+        case 'drama':
+            return `/dramas/${entry.entity_id}/edit`;
+        case 'user':
+            return `/users/${entry.entity_id}`;
+        case 'actor':
+            return `/actors/${entry.entity_id}`;
+        case 'genre':
+            return entry.entity_label ? `/genres?search=${encodeURIComponent(entry.entity_label)}` : null;
+        default:
+            return null;
+    }
+};
+
+const formatAction = (action: string) => action.replace(/_/g, ' ');
+
+export const AuditLog = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [actors, setActors] = useState<Pick<User, 'id' | 'name' | 'email'>[]>([]);
+    const [pageCount, setPageCount] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [viewingEntry, setViewingEntry] = useState<AuditLogEntry | null>(null);
+
+    const page = Number(searchParams.get('page')) || 1;
+    const limit = parsePageSize(searchParams.get('limit'));
+    const actorId = searchParams.get('actor_id') || '';
+    const entityTypeParam = searchParams.get('entity_type');
+    const entityType = isEntityType(entityTypeParam) ? entityTypeParam : undefined;
+    const entityId = searchParams.get('entity_id') || '';
+
+    useEffect(() => {
+        auditService.getActors()
+            .then(setActors)
+            .catch((error) => console.error('Failed to fetch audit actors', error));
+    }, []);
+
+    useEffect(() => {
+        const fetchEntries = async () => {
+            setIsLoading(true);
+            try {
+                const data = await auditService.getAll({
+                    page,
+                    limit,
+                    actor_id: actorId || undefined,
+                    entity_type: entityType,
+                    entity_id: entityId || undefined,
+                });
+                setEntries(data.items || []);
+                setPageCount(data.total_pages || Math.ceil((data.total || 0) / limit));
+            } catch (error) {
+                console.error('Failed to fetch audit log', error);
+                toast.error('Failed to load audit log');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchEntries();
+    }, [page, limit, actorId, entityType, entityId]);
+
+    const setFilter = (changes: Record<string, string>) =>
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, ...changes }));
+
+    const columns: ColumnDef<AuditLogEntry>[] = [
+        {
+            id: 'created_at',
+            header: 'When',
+            cell: ({ row }) => new Date(row.original.created_at).toLocaleString(),
+            meta: { cellClassName: 'whitespace-nowrap text-gray-500', skeleton: <Skeleton className="h-4 w-32" /> },
+        },
+        {
+            id: 'actor',
+            header: 'Admin',
+            cell: ({ row }) => (
+                <div>
+                    <Link to={`/users/${row.original.actor.id}`} className="font-medium hover:text-primary-600">{row.original.actor.name}</Link>
+                    <p className="text-xs text-gray-500">{row.original.actor.email}</p>
+                </div>
+            ),
+            meta: { skeleton: <Skeleton className="h-4 w-36" /> },
+        },
+        {
+            id: 'action',
+            header: 'Action',
+            cell: ({ row }) => (
+                <span className={cn(
+                    'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium capitalize',
+                    ACTION_STYLES[row.original.action] ?? 'bg-gray-100 text-gray-700'
+                )}>
+                    {formatAction(row.original.action)}
+                </span>
+            ),
+            meta: { skeleton: <Skeleton className="h-6 w-16 rounded-full" /> },
+        },
+        {
+            id: 'entity',
+            header: 'Entity',
+            cell: ({ row }) => {
+                const entry = row.original;
+                const link = entityLink(entry);
+                const label = entry.entity_label || entry.entity_id;
+                return (
+                    <div>
+                        <span className="text-xs uppercase tracking-wide text-gray-400">{ENTITY_LABELS[entry.entity_type] ?? entry.entity_type}</span>
+                        <p className="font-medium">
+                            {link ? <Link to={link} className="hover:text-primary-600">{label}</Link> : label}
+                        </p>
+                        <button
+                            type="button"
+                            className="text-xs text-gray-500 hover:text-primary-600"
+                            onClick={() => setFilter({ entity_type: entry.entity_type, entity_id: entry.entity_id })}
+                        >
+                            Show history
+                        </button>
+                    </div>
+                );
+            },
+            meta: { skeleton: <Skeleton className="h-4 w-40" /> },
+        },
+        {
+            id: 'changes',
+            header: 'Changes',
+            enableHiding: false,
+            cell: ({ row }) => {
+                const count = diffRecords(row.original.before, row.original.after).length;
+                return (
+                    <Button size="sm" variant="outline" disabled={count === 0} onClick={() => setViewingEntry(row.original)}>
+                        {count === 0 ? 'No changes' : `${count} ${count === 1 ? 'field' : 'fields'}`}
+                    </Button>
+                );
+            },
+            meta: {
+                headerClassName: 'text-right',
+                cellClassName: 'text-right',
+                skeleton: <Skeleton className="h-8 w-20 ml-auto" />,
+            },
+        },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-800">Audit Log</h1>
+                <p className="text-sm text-gray-500">Every change made through the admin panel, newest first.</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
+                <Select
+                    className="w-[220px]"
+                    aria-label="Admin"
+                    value={actorId}
+                    onChange={(e) => setFilter({ actor_id: e.target.value })}
+                    options={[
+                        { label: 'All Admins', value: '' },
+                        ...actors.map((actor) => ({ label: actor.name, value: actor.id })),
+                    ]}
+                />
+                <Select
+                    className="w-[180px]"
+                    aria-label="Entity type"
+                    value={entityType ?? ''}
+                    onChange={(e) => setFilter({ entity_type: e.target.value, entity_id: '' })}
+                    options={[
+                        { label: 'All Entities', value: '' },
+                        ...(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => ({ label: ENTITY_LABELS[type], value: type })),
+                    ]}
+                />
+                {entityId && (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-primary-50 px-3 py-1 text-sm text-primary-700">
+                        {entityType ? ENTITY_LABELS[entityType] : 'Entity'} {entityId}
+                        <button type="button" title="Clear" className="hover:text-primary-900" onClick={() => setFilter({ entity_id: '' })}>
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    </span>
+                )}
+            </div>
+
+            <DataTable
+                tableId="audit-log"
+                columns={columns}
+                data={entries}
+                getRowId={(entry) => entry.id}
+                isLoading={isLoading}
+                emptyMessage="No audit entries found."
+                pagination={{
+                    page,
+                    pageSize: limit,
+                    pageCount,
+                    onPageChange: (next) => setSearchParams(mergeSearchParams(searchParams, { page: next })),
+                    onPageSizeChange: (size) => setSearchParams(mergeSearchParams(searchParams, { page: 1, limit: size })),
+                }}
+            />
+
+            <Dialog open={!!viewingEntry} onOpenChange={(open) => !open && setViewingEntry(null)}>
+                <DialogContent className="max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle className="capitalize">
+                            {viewingEntry && `${formatAction(viewingEntry.action)} ${ENTITY_LABELS[viewingEntry.entity_type] ?? viewingEntry.entity_type}`}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {viewingEntry && `${viewingEntry.entity_label || viewingEntry.entity_id} · by ${viewingEntry.actor.name} on ${new Date(viewingEntry.created_at).toLocaleString()}`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {viewingEntry && <DiffTable changes={diffRecords(viewingEntry.before, viewingEntry.after)} />}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
@@ -1,32 +1,25 @@
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { useNavigate, useParams } from 'react-router-dom';
-import { dramaService } from '../../services/drama';
+import { dramaService, toDramaInput } from '../../services/drama';
 import { genreService } from '../../services/genre';
 import { actorService } from '../../services/actor';
 import type { Genre, Actor } from '../../types';
 import { Button } from '../../components/ui/Button';
 import { Input } from '../../components/ui/Input';
 import { toast } from 'sonner';
-import { ArrowLeft, Plus, X, Search } from 'lucide-react';
+import { ArrowLeft, Plus, X, Search, ScrollText, History } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Card, CardContent } from '../../components/ui/Card';
 import { Skeleton } from '../../components/ui/Skeleton';
-
-const dramaSchema = z.object({
-    title: z.string().min(1, 'Title is required'),
-    synopsis: z.string().min(10, 'Synopsis must be at least 10 characters'),
-    poster_url: z.string().url('Invalid URL format').optional().or(z.literal('')),
-    year: z.coerce.number().min(1900).max(new Date().getFullYear() + 5),
-    total_seasons: z.coerce.number().min(1),
-    status: z.enum(['ongoing', 'completed']),
-    genre_ids: z.array(z.string()).min(1, 'Select at least one genre'),
-    // Actors are handled separately via state to manage roles easily, or can be field array
-});
-
-type DramaFormData = z.infer<typeof dramaSchema>;
+import { dramaSchema, type DramaFormData } from '../../schemas/drama';
+import { PublishFields } from '../../components/dramas/PublishFields';
+import { ImageUploadField } from '../../components/media/ImageUploadField';
+import { usePermission } from '../../hooks/usePermission';
+import { DramaRevisionsDialog } from '../../components/dramas/DramaRevisionsDialog';
+import { toPublishFormValues, toPublishPayload } from '../../utils/publishing';
+import { toastWithUndo } from '../../utils/undo';
 
 interface SelectedActor {
     actor_id: string;
@@ -39,7 +32,10 @@ export const DramaForm = () => {
     const { id } = useParams();
     const navigate = useNavigate();
     const isEditMode = !!id;
+    const canViewAudit = usePermission('audit:view');
     const [isLoading, setIsLoading] = useState(false);
+    const [isRevisionsOpen, setIsRevisionsOpen] = useState(false);
+    const [reloadKey, setReloadKey] = useState(0); // bumped after a restore to reload the form
 
     // Data Sources
     const [availableGenres, setAvailableGenres] = useState<Genre[]>([]);
@@ -61,6 +57,7 @@ export const DramaForm = () => {
         handleSubmit,
         setValue,
         watch,
+        control,
         formState: { errors },
     } = useForm<DramaFormData>({
         resolver: zodResolver(dramaSchema) as any,
@@ -68,6 +65,8 @@ export const DramaForm = () => {
             status: 'ongoing',
             total_seasons: 1,
             genre_ids: [],
+            publish_state: 'published',
+            publish_at: '',
         }
     });
 
@@ -137,6 +136,9 @@ export const DramaForm = () => {
                     setValue('year', drama.year);
                     setValue('total_seasons', drama.total_seasons);
                     setValue('status', drama.status);
+                    const publishValues = toPublishFormValues(drama);
+                    setValue('publish_state', publishValues.publish_state);
+                    setValue('publish_at', publishValues.publish_at);
 
                     // Set Genres
                     if (drama.genres) {
@@ -159,7 +161,7 @@ export const DramaForm = () => {
             }
         };
         loadData();
-    }, [id, isEditMode, setValue, navigate]);
+    }, [id, isEditMode, setValue, navigate, reloadKey]);
 
     // Handle Genre Toggle
     const toggleGenre = (genreId: string) => {
@@ -206,6 +208,7 @@ export const DramaForm = () => {
                 year: Number(data.year),
                 total_seasons: Number(data.total_seasons),
                 poster_url: data.poster_url || undefined,
+                ...toPublishPayload(data),
                 actors: selectedActors.map(a => ({
                     actor_id: a.actor_id,
                     role: a.role
@@ -213,8 +216,12 @@ export const DramaForm = () => {
             };
 
             if (isEditMode) {
+                // Read back right before saving so the undo restores what was actually stored
+                const previous = await dramaService.getById(id);
                 await dramaService.update(id, payload);
-                toast.success('Drama updated successfully');
+                toastWithUndo('Drama updated successfully', {
+                    undo: () => dramaService.update(id, toDramaInput(previous)),
+                });
             } else {
                 await dramaService.create(payload);
                 toast.success('Drama created successfully');
@@ -239,8 +246,36 @@ export const DramaForm = () => {
                 <h1 className="text-2xl font-bold text-gray-800">
                     {isEditMode ? 'Edit Drama' : 'Add New Drama'}
                 </h1>
+                {isEditMode && (
+                    <div className="ml-auto flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setIsRevisionsOpen(true)}>
+                            <History className="h-4 w-4 mr-2" />
+                            Revisions
+                        </Button>
+                        {canViewAudit && (
+                            <Link to={`/audit?entity_type=drama&entity_id=${id}`}>
+                                <Button variant="outline" size="sm">
+                                    <ScrollText className="h-4 w-4 mr-2" />
+                                    Audit Log
+                                </Button>
+                            </Link>
+                        )}
+                    </div>
+                )}
             </div>
 
+            {isEditMode && (
+                <DramaRevisionsDialog
+                    dramaId={id}
+                    open={isRevisionsOpen}
+                    onOpenChange={setIsRevisionsOpen}
+                    onRestored={() => {
+                        setIsRevisionsOpen(false);
+                        setReloadKey((key) => key + 1);
+                    }}
+                />
+            )}
+
             <Card>
                 <CardContent>
                     <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
@@ -282,13 +317,15 @@ export const DramaForm = () => {
                                 </select>
                             </div>
 
-                            <Input
-                                label="Poster URL"
-                                placeholder="https://example.com/poster.jpg"
-                                error={errors.poster_url?.message}
-                                {...register('poster_url')}
+                            <PublishFields
+                                state={watch('publish_state')}
+                                stateField={register('publish_state')}
+                                publishAtField={register('publish_at')}
+                                error={errors.publish_at?.message}
                             />
 
+                            <ImageUploadField control={control} name="poster_url" label="Poster" preset="poster" />
+
                             <div className="w-full">
                                 <label className="block text-sm font-medium text-gray-700 mb-1">Synopsis</label>
                                 <textarea
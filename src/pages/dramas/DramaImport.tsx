@@ -0,0 +1,414 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle2, FileUp, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { dramaService } from '../../services/drama';
+import { genreService } from '../../services/genre';
+import { episodeService, seasonService } from '../../services/episode';
+import type { Drama, Genre, Season } from '../../types';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent, CardHeader } from '../../components/ui/Card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../components/ui/Table';
+import { cn } from '../../utils/cn';
+import { runBulk } from '../../utils/bulk';
+import { getErrorMessage } from '../../utils/errors';
+import { toPublishPayload } from '../../utils/publishing';
+import {
+    buildImportPlan,
+    parseImportFile,
+    summarizeImportPlan,
+    toEpisodePayload,
+    validateImport,
+    type EpisodePlan,
+    type SeasonPlan,
+    type ValidatedImport,
+} from '../../utils/dramaImport';
+
+type Step = 'upload' | 'review' | 'importing' | 'done';
+
+const actionStyles: Record<EpisodePlan['action'], string> = {
+    create: 'bg-green-100 text-green-800',
+    update: 'bg-blue-100 text-blue-800',
+    unchanged: 'bg-gray-100 text-gray-600',
+};
+
+export const DramaImport = () => {
+    const [searchParams] = useSearchParams();
+    const targetDramaId = searchParams.get('drama');
+
+    const [step, setStep] = useState<Step>('upload');
+    const [genres, setGenres] = useState<Genre[]>([]);
+    const [targetDrama, setTargetDrama] = useState<Drama | null>(null);
+    const [isParsing, setIsParsing] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [fileName, setFileName] = useState('');
+    const [validated, setValidated] = useState<ValidatedImport | null>(null);
+    const [plan, setPlan] = useState<SeasonPlan[]>([]);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [failures, setFailures] = useState<{ label: string; error: string }[]>([]);
+    const [resultDramaId, setResultDramaId] = useState<string | null>(targetDramaId);
+
+    useEffect(() => {
+        const loadData = async () => {
+            try {
+                const genresData = await genreService.getAll({ limit: 100 });
+                setGenres(Array.isArray(genresData) ? genresData : []);
+                if (targetDramaId) {
+                    setTargetDrama(await dramaService.getById(targetDramaId));
+                }
+            } catch (error) {
+                console.error('Failed to load import data', error);
+                toast.error('Failed to load data');
+            }
+        };
+        loadData();
+    }, [targetDramaId]);
+
+    const loadExistingSeasons = async (dramaId: string): Promise<Season[]> => {
+        const seasons = await seasonService.getByDrama(dramaId);
+        return Promise.all((seasons || []).map(async (season) => ({
+            ...season,
+            episodes: await episodeService.getBySeason(season.id) || [],
+        })));
+    };
+
+    const handleFile = async (file: File) => {
+        setIsParsing(true);
+        setFileName(file.name);
+        try {
+            const raw = await parseImportFile(file);
+            const existingSeasons = targetDramaId ? await loadExistingSeasons(targetDramaId) : [];
+            const result = validateImport(raw, { genres, requireDrama: !targetDramaId, existingSeasons });
+            setValidated(result);
+            setPlan(buildImportPlan(result, existingSeasons));
+            setStep('review');
+        } catch (error) {
+            console.error('Failed to read import file', error);
+            toast.error(`Could not read ${file.name}: ${getErrorMessage(error)}`);
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) handleFile(file);
+    };
+
+    const handleImport = async () => {
+        if (!validated) return;
+        const episodesToWrite = plan.flatMap((season) => season.episodes.filter((e) => e.action !== 'unchanged'));
+        const newSeasons = plan.filter((season) => !season.existing);
+
+        setStep('importing');
+        setProgress({ done: 0, total: episodesToWrite.length + newSeasons.length + (targetDramaId ? 0 : 1) });
+        const failed: { label: string; error: string }[] = [];
+        const tick = () => setProgress((p) => ({ ...p, done: p.done + 1 }));
+
+        try {
+            let dramaId = targetDramaId;
+            if (!dramaId && validated.drama) {
+                const created = await dramaService.create({
+                    ...validated.drama,
+                    poster_url: validated.drama.poster_url || undefined,
+                    ...toPublishPayload(validated.drama),
+                    actors: [],
+                });
+                dramaId = created.id;
+                tick();
+            }
+            if (!dramaId) throw new Error('No drama to import into');
+            setResultDramaId(dramaId);
+
+            for (const season of plan) {
+                let seasonId = season.existing?.id;
+                const pending = season.episodes.filter((e) => e.action !== 'unchanged');
+
+                if (!seasonId) {
+                    try {
+                        const created = await seasonService.create({
+                            drama_id: dramaId,
+                            season_number: season.season_number,
+                            title: season.title,
+                        });
+                        seasonId = created.id;
+                    } catch (error) {
+                        failed.push({ label: `Season ${season.season_number}`, error: getErrorMessage(error) });
+                        // Its episodes cannot be created without the season
+                        pending.forEach((episode) => failed.push({ label: episode.source, error: 'Season could not be created' }));
+                        setProgress((p) => ({ ...p, done: p.done + 1 + pending.length }));
+                        continue;
+                    } finally {
+                        if (seasonId) tick();
+                    }
+                }
+
+                const targetSeasonId = seasonId;
+                const result = await runBulk(pending, (episode) => {
+                    const payload = toEpisodePayload(episode, targetSeasonId);
+                    return episode.action === 'update' && episode.existing
+                        ? episodeService.update(episode.existing.id, payload)
+                        : episodeService.create({ ...payload, view_count: 0 });
+                }, { concurrency: 3, onProgress: tick });
+
+                result.failed.forEach(({ item, error }) => failed.push({ label: `${item.source} (${item.data.title})`, error }));
+            }
+
+            if (failed.length > 0) {
+                toast.error(`Import finished with ${failed.length} errors`);
+            } else {
+                toast.success('Import completed');
+            }
+        } catch (error) {
+            console.error('Import failed', error);
+            failed.push({ label: 'Drama', error: getErrorMessage(error) });
+            toast.error('Import failed');
+        } finally {
+            setFailures(failed);
+            setStep('done');
+        }
+    };
+
+    const reset = () => {
+        setStep('upload');
+        setValidated(null);
+        setPlan([]);
+        setFailures([]);
+        setFileName('');
+    };
+
+    const summary = summarizeImportPlan(plan);
+    const issues = validated?.issues || [];
+    const hasChanges = summary.create + summary.update + summary.newSeasons > 0 || (!targetDramaId && !!validated?.drama);
+
+    return (
+        <div className="space-y-6 max-w-5xl mx-auto pb-10">
+            <div className="flex items-center gap-4">
+                <Link to={targetDramaId ? `/dramas/${targetDramaId}/episodes` : '/dramas'}>
+                    <Button variant="ghost" size="sm">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        Back
+                    </Button>
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800">Import Seasons & Episodes</h1>
+                    <p className="text-gray-500">
+                        {targetDrama ? `Into ${targetDrama.title} (${targetDrama.year})` : 'Creates a new drama from the file'}
+                    </p>
+                </div>
+            </div>
+
+            {step === 'upload' && (
+                <Card>
+                    <CardContent className="space-y-4">
+                        <label
+                            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                            onDragLeave={() => setIsDragging(false)}
+                            onDrop={handleDrop}
+                            className={cn(
+                                'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 text-center cursor-pointer transition-colors',
+                                isDragging ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:bg-gray-50'
+                            )}
+                        >
+                            <FileUp className="h-10 w-10 text-gray-400" />
+                            <span className="text-sm font-medium text-gray-700">
+                                {isParsing ? `Reading ${fileName}...` : 'Drop a CSV or JSON file here, or click to browse'}
+                            </span>
+                            <input
+                                type="file"
+                                accept=".csv,.json,text/csv,application/json"
+                                className="sr-only"
+                                disabled={isParsing}
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleFile(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                        <div className="text-sm text-gray-600 space-y-2">
+                            <p className="font-medium text-gray-700">Expected format</p>
+                            <p>
+                                <span className="font-medium">CSV</span> — one row per episode with columns{' '}
+                                <code className="text-xs bg-gray-100 px-1 rounded">season_number, season_title, episode_number, title, duration, video_url, thumbnail_url</code>.
+                                {!targetDramaId && (
+                                    <> For a new drama also include <code className="text-xs bg-gray-100 px-1 rounded">drama_title, synopsis, year, status, poster_url, genres</code> (genres separated by <code>;</code>) on the first row.</>
+                                )}
+                            </p>
+                            <p>
+                                <span className="font-medium">JSON</span> — an object with the drama fields, <code className="text-xs bg-gray-100 px-1 rounded">genres</code> as a list of names, and{' '}
+                                <code className="text-xs bg-gray-100 px-1 rounded">seasons: [{'{'} season_number, title, episodes: [...] {'}'}]</code>.
+                            </p>
+                            <p>Durations are in minutes. Existing episodes are matched by season and episode number.</p>
+                            <p>
+                                To schedule releases add <code className="text-xs bg-gray-100 px-1 rounded">publish_state</code> (draft, scheduled or published) and{' '}
+                                <code className="text-xs bg-gray-100 px-1 rounded">publish_at</code> in local time, e.g. <code className="text-xs bg-gray-100 px-1 rounded">2025-03-07T21:00</code>.
+                                New episodes are published straight away when these are left out.
+                            </p>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {step === 'review' && validated && (
+                <>
+                    <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                        {[
+                            { label: 'New seasons', value: summary.newSeasons },
+                            { label: 'Episodes to create', value: summary.create },
+                            { label: 'Episodes to update', value: summary.update },
+                            { label: 'Unchanged', value: summary.unchanged },
+                        ].map((item) => (
+                            <Card key={item.label}>
+                                <CardContent className="p-4">
+                                    <p className="text-sm text-gray-500">{item.label}</p>
+                                    <p className="text-2xl font-bold text-gray-900">{item.value}</p>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+
+                    {issues.length > 0 && (
+                        <Card className="border-red-200">
+                            <CardHeader className="flex items-center gap-2 bg-red-50">
+                                <AlertTriangle className="h-5 w-5 text-red-500" />
+                                <h3 className="font-semibold text-red-700">{issues.length} problems must be fixed before importing</h3>
+                            </CardHeader>
+                            <CardContent className="max-h-64 overflow-y-auto">
+                                <ul className="space-y-1 text-sm">
+                                    {issues.map((issue, index) => (
+                                        <li key={index}>
+                                            <span className="font-medium text-gray-800">{issue.source}:</span>{' '}
+                                            <span className="text-red-600">{issue.message}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {validated.drama && (
+                        <Card>
+                            <CardHeader>
+                                <h3 className="font-semibold text-gray-800">New drama</h3>
+                            </CardHeader>
+                            <CardContent className="text-sm text-gray-700 space-y-1">
+                                <p><span className="font-medium">{validated.drama.title}</span> ({validated.drama.year}) · {validated.drama.status}</p>
+                                <p className="text-gray-500 line-clamp-2">{validated.drama.synopsis}</p>
+                                <p className="text-gray-500">
+                                    Genres: {validated.drama.genre_ids.map((id) => genres.find((g) => g.id === id)?.name).join(', ')}
+                                </p>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {plan.map((season) => (
+                        <Card key={season.season_number}>
+                            <CardHeader className="flex items-center justify-between">
+                                <h3 className="font-semibold text-gray-800">
+                                    {season.existing ? season.existing.title : season.title}
+                                </h3>
+                                <span className={cn(
+                                    'inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium',
+                                    season.existing ? 'bg-gray-100 text-gray-600' : 'bg-green-100 text-green-800'
+                                )}>
+                                    {season.existing ? 'Existing season' : 'New season'}
+                                </span>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>#</TableHead>
+                                            <TableHead>Title</TableHead>
+                                            <TableHead>Duration</TableHead>
+                                            <TableHead>Change</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {season.episodes.map((episode) => (
+                                            <TableRow key={episode.data.episode_number}>
+                                                <TableCell>{episode.data.episode_number}</TableCell>
+                                                <TableCell className="font-medium">
+                                                    {episode.data.title}
+                                                    {episode.action === 'update' && episode.existing && episode.changes.includes('title') && (
+                                                        <div className="text-xs text-gray-400 line-through">{episode.existing.title}</div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>{episode.data.duration}m</TableCell>
+                                                <TableCell>
+                                                    <span className={cn('inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium', actionStyles[episode.action])}>
+                                                        {episode.action}
+                                                    </span>
+                                                    {episode.changes.length > 0 && (
+                                                        <span className="ml-2 text-xs text-gray-500">{episode.changes.join(', ')}</span>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </CardContent>
+                        </Card>
+                    ))}
+
+                    <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={reset}>Choose another file</Button>
+                        <Button onClick={handleImport} disabled={issues.length > 0 || !hasChanges}>
+                            Import
+                        </Button>
+                    </div>
+                </>
+            )}
+
+            {(step === 'importing' || step === 'done') && (
+                <Card>
+                    <CardContent className="space-y-4">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium text-gray-700">
+                                {step === 'importing' ? 'Importing...' : 'Import finished'}
+                            </span>
+                            <span className="text-gray-500">{progress.done} / {progress.total}</span>
+                        </div>
+                        <div className="h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+                            <div
+                                className="h-full bg-primary-500 transition-all"
+                                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                            />
+                        </div>
+
+                        {step === 'done' && (
+                            <>
+                                {failures.length === 0 ? (
+                                    <p className="flex items-center gap-2 text-sm text-green-700">
+                                        <CheckCircle2 className="h-4 w-4" />
+                                        Everything was imported.
+                                    </p>
+                                ) : (
+                                    <ul className="max-h-64 divide-y overflow-y-auto rounded-md border border-gray-200">
+                                        {failures.map((failure, index) => (
+                                            <li key={index} className="px-3 py-2">
+                                                <p className="text-sm font-medium text-gray-900">{failure.label}</p>
+                                                <p className="text-xs text-red-600">{failure.error}</p>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                <div className="flex justify-end gap-2">
+                                    <Button variant="outline" onClick={reset}>Import another file</Button>
+                                    {resultDramaId && (
+                                        <Link to={`/dramas/${resultDramaId}/episodes`}>
+                                            <Button>Manage Episodes</Button>
+                                        </Link>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+};
@@ -2,14 +2,51 @@ import { useEffect, useState } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
 import { dramaService } from '../../services/drama';
 import { genreService } from '../../services/genre';
+import { seasonService, episodeService } from '../../services/episode';
+import { trashService } from '../../services/trash';
 import type { Drama, Genre } from '../../types';
 import { Button } from '../../components/ui/Button';
 import { Input } from '../../components/ui/Input';
 import { Select } from '../../components/ui/Select';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../components/ui/Table';
-import { Plus, Search, Pencil, Trash2, Clapperboard, Filter } from 'lucide-react';
+import { DataTable } from '../../components/ui/DataTable';
+import { Plus, Search, Pencil, Trash2, Clapperboard, Filter, X, Upload } from 'lucide-react';
 import { toast } from 'sonner';
+import { confirmAction } from '../../stores/confirmStore';
 import { Skeleton } from '../../components/ui/Skeleton';
+import { Checkbox } from '../../components/ui/Checkbox';
+import { BulkFailureDialog, type BulkFailureReport } from '../../components/ui/BulkFailureDialog';
+import { usePermissions } from '../../hooks/usePermission';
+import { runBulk } from '../../utils/bulk';
+import { toastWithUndo } from '../../utils/undo';
+import { fetchAllPages } from '../../utils/pagination';
+import { ExportButton } from '../../components/ui/ExportButton';
+import type { ExportColumn } from '../../utils/export';
+import { formatSortParam, mergeSearchParams, parsePageSize, parseSortParam, type SortKeyColumns } from '../../utils/table';
+import type { ColumnDef } from '@tanstack/react-table';
+import { PublishStateBadge } from '../../components/dramas/PublishStateBadge';
+import { getPublishState, PUBLISH_STATE_LABELS } from '../../utils/publishing';
+
+const BULK_FETCH_LIMIT = 100;
+
+// Header sorts for the API sort keys that match a column; the rest stay in the Sort By menu
+const SORT_COLUMNS: SortKeyColumns = {
+    popular: { id: 'view_count', desc: true },
+    rating: { id: 'rating', desc: true },
+};
+
+const exportColumns: ExportColumn<Drama>[] = [
+    { header: 'ID', value: (d) => d.id, width: 38 },
+    { header: 'Title', value: (d) => d.title, width: 40 },
+    { header: 'Year', value: (d) => d.year, width: 8 },
+    { header: 'Status', value: (d) => d.status, width: 12 },
+    { header: 'Genres', value: (d) => d.genres?.map((g) => g.name).join(', '), width: 30 },
+    { header: 'Seasons', value: (d) => d.total_seasons, width: 10 },
+    { header: 'Visibility', value: (d) => PUBLISH_STATE_LABELS[getPublishState(d)], width: 12 },
+    { header: 'Publish At', value: (d) => (d.publish_at ? new Date(d.publish_at) : null), width: 18 },
+    { header: 'Rating', value: (d) => d.rating, width: 8 },
+    { header: 'Views', value: (d) => d.view_count, width: 12 },
+    { header: 'Created At', value: (d) => (d.created_at ? new Date(d.created_at) : null), width: 14 },
+];
 
 export const DramaList = () => {
     const [dramas, setDramas] = useState<Drama[]>([]);
@@ -17,6 +54,16 @@ export const DramaList = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [searchParams, setSearchParams] = useSearchParams();
     const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+    const can = usePermissions();
+    const canBulkEdit = can('dramas:edit') || can('dramas:delete');
+
+    // Bulk selection: explicit rows (kept across pages) or every drama matching the filters
+    const [selected, setSelected] = useState<Map<string, Drama>>(new Map());
+    const [selectAllMatching, setSelectAllMatching] = useState(false);
+    const [total, setTotal] = useState(0);
+    const [bulkGenreId, setBulkGenreId] = useState('');
+    const [isBulkRunning, setIsBulkRunning] = useState(false);
+    const [failureReport, setFailureReport] = useState<BulkFailureReport | null>(null);
 
     // Filter states
     const [status, setStatus] = useState(searchParams.get('status') || '');
@@ -25,6 +72,7 @@ export const DramaList = () => {
 
     const page = Number(searchParams.get('page')) || 1;
     const search = searchParams.get('search') || '';
+    const limit = parsePageSize(searchParams.get('limit'));
 
     useEffect(() => {
         const fetchGenres = async () => {
@@ -48,13 +96,14 @@ export const DramaList = () => {
         try {
             const data = await dramaService.getAll({
                 page,
-                limit: 10,
+                limit,
                 search,
                 status: status || undefined,
                 genre: genreId || undefined,
                 sort: sort || undefined
             });
             setDramas(data.items || []);
+            setTotal(data.total || 0);
         } catch (error) {
             toast.error('Failed to fetch dramas');
         } finally {
@@ -64,57 +113,393 @@ export const DramaList = () => {
 
     useEffect(() => {
         fetchDramas();
-    }, [page, search, status, genreId, sort]);
+    }, [page, search, status, genreId, sort, limit]);
+
+    const clearSelection = () => {
+        setSelected(new Map());
+        setSelectAllMatching(false);
+    };
 
     const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
+        clearSelection();
         const formData = new FormData(e.currentTarget);
         const query = formData.get('search') as string;
-        setSearchParams({
-            page: '1',
+        setSearchParams(mergeSearchParams(searchParams, {
+            page: 1,
             search: query,
             status,
             genre: genreId,
             sort
-        });
+        }));
     };
 
     const handleFilterChange = (key: string, value: string) => {
         if (key === 'status') setStatus(value);
         if (key === 'genre') setGenreId(value);
         if (key === 'sort') setSort(value);
+        clearSelection();
 
-        setSearchParams({
-            page: '1',
+        setSearchParams(mergeSearchParams(searchParams, {
+            page: 1,
             search,
             status: key === 'status' ? value : status,
             genre: key === 'genre' ? value : genreId,
             sort: key === 'sort' ? value : sort
-        });
+        }));
     };
 
-    const handleDelete = async (id: string) => {
-        if (!window.confirm('Are you sure you want to delete this drama?')) return;
+    const handleDelete = async (drama: Drama) => {
+        const confirmed = await confirmAction({
+            title: `Delete "${drama.title}"?`,
+            description: 'The drama moves to the trash and can be restored from there.',
+            confirmLabel: 'Move to Trash',
+            errorTypeToConfirm: drama.title,
+            impact: async () => {
+                const seasons = (await seasonService.getByDrama(drama.id)) || [];
+                const episodes = await Promise.all(seasons.map((season) => episodeService.getBySeason(season.id)));
+                const episodeCount = episodes.reduce((sum, list) => sum + (list?.length ?? 0), 0);
+                if (seasons.length === 0) return { items: ['No seasons or episodes'] };
+                return {
+                    items: [
+                        `${seasons.length} ${seasons.length === 1 ? 'season' : 'seasons'} and ${episodeCount} ${episodeCount === 1 ? 'episode' : 'episodes'} go to the trash with it`,
+                        `${drama.view_count.toLocaleString()} views so far`,
+                    ],
+                    typeToConfirm: drama.title,
+                };
+            },
+        });
+        if (!confirmed) return;
 
         try {
-            await dramaService.delete(id);
-            toast.success('Drama deleted successfully');
+            await dramaService.delete(drama.id);
+            toastWithUndo('Drama moved to trash', {
+                undo: () => trashService.restore('drama', drama.id),
+                onUndone: fetchDramas,
+            });
             fetchDramas();
         } catch (error) {
             toast.error('Failed to delete drama');
         }
     };
 
+    const isPageSelected = dramas.length > 0 && dramas.every((drama) => selectAllMatching || selected.has(drama.id));
+    const isPagePartiallySelected = !isPageSelected && dramas.some((drama) => selected.has(drama.id));
+    const selectedCount = selectAllMatching ? total : selected.size;
+
+    const togglePage = () => {
+        const next = new Map(selectAllMatching ? [] : selected);
+        if (isPageSelected) {
+            dramas.forEach((drama) => next.delete(drama.id));
+        } else {
+            dramas.forEach((drama) => next.set(drama.id, drama));
+        }
+        setSelectAllMatching(false);
+        setSelected(next);
+    };
+
+    const toggleRow = (drama: Drama) => {
+        // Unticking a row while "all matching" is active narrows back to this page
+        const next = new Map(selectAllMatching ? dramas.map((d) => [d.id, d] as const) : selected);
+        if (next.has(drama.id)) {
+            next.delete(drama.id);
+        } else {
+            next.set(drama.id, drama);
+        }
+        setSelectAllMatching(false);
+        setSelected(next);
+    };
+
+    // Exports follow the filters applied in the URL, not unsubmitted filter inputs
+    const fetchExportRows = () => fetchAllPages(
+        (p) => dramaService.getAll({
+            page: p,
+            limit: BULK_FETCH_LIMIT,
+            search,
+            status: searchParams.get('status') || undefined,
+            genre: searchParams.get('genre') || undefined,
+            sort: searchParams.get('sort') || undefined
+        }),
+        { limit: BULK_FETCH_LIMIT }
+    );
+
+    const resolveBulkTargets = async () => {
+        if (!selectAllMatching) return [...selected.values()];
+        return fetchAllPages(
+            (p) => dramaService.getAll({
+                page: p,
+                limit: BULK_FETCH_LIMIT,
+                search,
+                status: status || undefined,
+                genre: genreId || undefined,
+                sort: sort || undefined
+            }),
+            { limit: BULK_FETCH_LIMIT }
+        );
+    };
+
+    const runBulkAction = async (
+        labels: { progress: string; done: string },
+        task: (drama: Drama) => Promise<unknown>,
+        // Reverses `task` for the dramas it succeeded on, offered as Undo on the success toast
+        undoTask?: (drama: Drama) => Promise<unknown>
+    ) => {
+        setIsBulkRunning(true);
+        const toastId = toast.loading(`${labels.progress}...`);
+        try {
+            const targets = await resolveBulkTargets();
+            const result = await runBulk(targets, task, {
+                onProgress: (done, count) => toast.loading(`${labels.progress}... ${done}/${count}`, { id: toastId }),
+            });
+
+            if (result.failed.length > 0) {
+                const report: BulkFailureReport = {
+                    title: `${labels.progress} finished with errors`,
+                    total: targets.length,
+                    failures: result.failed.map(({ item, error }) => ({ label: item.title, error })),
+                };
+                toast.error(`${result.failed.length} of ${targets.length} dramas failed`, {
+                    id: toastId,
+                    action: { label: 'View report', onClick: () => setFailureReport(report) },
+                });
+                setFailureReport(report);
+            } else if (undoTask) {
+                toastWithUndo(`${targets.length} dramas ${labels.done}`, {
+                    id: toastId,
+                    undo: async () => {
+                        const undone = await runBulk(result.succeeded, undoTask);
+                        if (undone.failed.length > 0) {
+                            throw new Error(`${undone.failed.length} dramas could not be reverted`);
+                        }
+                    },
+                    onUndone: fetchDramas,
+                });
+            } else {
+                toast.success(`${targets.length} dramas ${labels.done}`, { id: toastId });
+            }
+            clearSelection();
+            fetchDramas();
+        } catch (error) {
+            console.error('Bulk action failed', error);
+            toast.error('Bulk action failed', { id: toastId });
+        } finally {
+            setIsBulkRunning(false);
+        }
+    };
+
+    const handleBulkDelete = async () => {
+        const confirmed = await confirmAction({
+            title: `Delete ${selectedCount} dramas?`,
+            description: 'They move to the trash and can be restored from there.',
+            confirmLabel: 'Move to Trash',
+            impact: { items: ['All of their seasons and episodes go to the trash with them'] },
+            typeToConfirm: `delete ${selectedCount} dramas`,
+        });
+        if (!confirmed) return;
+        runBulkAction(
+            { progress: 'Moving dramas to trash', done: 'moved to trash' },
+            (drama) => dramaService.delete(drama.id),
+            (drama) => trashService.restore('drama', drama.id)
+        );
+    };
+
+    const handleBulkStatus = (value: Drama['status']) => {
+        runBulkAction(
+            { progress: `Marking dramas as ${value}`, done: `marked as ${value}` },
+            (drama) => dramaService.updateFields(drama.id, { status: value }),
+            (drama) => dramaService.updateFields(drama.id, { status: drama.status })
+        );
+    };
+
+    const handleBulkGenre = (action: 'add' | 'remove') => {
+        const genre = genres.find((g) => g.id === bulkGenreId);
+        if (!genre) return;
+        // Recorded from the fresh record each task reads, so Undo only touches dramas the action changed
+        const hadGenre = new Set<string>();
+
+        runBulkAction(
+            action === 'add'
+                ? { progress: `Adding ${genre.name}`, done: 'updated' }
+                : { progress: `Removing ${genre.name}`, done: 'updated' },
+            (drama) => dramaService.updateFields(drama.id, (current) => {
+                const currentIds = current.genres?.map((g) => g.id) || [];
+                if (currentIds.includes(genre.id)) hadGenre.add(drama.id);
+                if (action === 'add') {
+                    return { genre_ids: currentIds.includes(genre.id) ? currentIds : [...currentIds, genre.id] };
+                }
+                const remaining = currentIds.filter((id) => id !== genre.id);
+                if (remaining.length === 0) {
+                    throw new Error('A drama must keep at least one genre');
+                }
+                return { genre_ids: remaining };
+            }),
+            async (drama) => {
+                // "add" left dramas that already had the genre unchanged; "remove" left those without it
+                if (action === 'add' ? hadGenre.has(drama.id) : !hadGenre.has(drama.id)) return;
+                await dramaService.updateFields(drama.id, (current) => {
+                    const currentIds = current.genres?.map((g) => g.id) || [];
+                    return {
+                        genre_ids: action === 'add'
+                            ? currentIds.filter((id) => id !== genre.id)
+                            : [...currentIds.filter((id) => id !== genre.id), genre.id],
+                    };
+                });
+            }
+        );
+    };
+
+    const columns: ColumnDef<Drama>[] = [
+        ...(canBulkEdit ? [{
+            id: 'select',
+            enableHiding: false,
+            header: () => (
+                <Checkbox
+                    aria-label="Select all on page"
+                    checked={isPageSelected}
+                    indeterminate={isPagePartiallySelected}
+                    disabled={isLoading || dramas.length === 0}
+                    onChange={togglePage}
+                />
+            ),
+            cell: ({ row }) => (
+                <Checkbox
+                    aria-label={`Select ${row.original.title}`}
+                    checked={selectAllMatching || selected.has(row.original.id)}
+                    onChange={() => toggleRow(row.original)}
+                />
+            ),
+            meta: { headerClassName: 'w-10', skeleton: <Skeleton className="h-4 w-4" /> },
+        } satisfies ColumnDef<Drama>] : []),
+        {
+            id: 'poster',
+            header: 'Poster',
+            cell: ({ row }) => (
+                <img
+                    src={row.original.poster_url}
+                    alt={row.original.title}
+                    className="h-16 w-12 rounded object-cover bg-gray-100"
+                    onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/48x64?text=No+Img' }}
+                />
+            ),
+            meta: { skeleton: <Skeleton className="h-16 w-12 rounded" /> },
+        },
+        {
+            id: 'title',
+            header: 'Title',
+            enableHiding: false,
+            cell: ({ row }) => (
+                <>
+                    <div>{row.original.title}</div>
+                    <div className="text-xs text-gray-500 line-clamp-1">{row.original.synopsis}</div>
+                </>
+            ),
+            meta: {
+                cellClassName: 'font-medium',
+                skeleton: (
+                    <div className="space-y-2">
+                        <Skeleton className="h-4 w-48" />
+                        <Skeleton className="h-3 w-32" />
+                    </div>
+                ),
+            },
+        },
+        {
+            id: 'year',
+            header: 'Year',
+            cell: ({ row }) => row.original.year,
+            meta: { skeleton: <Skeleton className="h-4 w-12" /> },
+        },
+        {
+            id: 'status',
+            header: 'Status',
+            cell: ({ row }) => (
+                <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${row.original.status === 'ongoing' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                    {row.original.status}
+                </span>
+            ),
+            meta: { skeleton: <Skeleton className="h-6 w-16 rounded-full" /> },
+        },
+        {
+            id: 'publish_state',
+            header: 'Visibility',
+            cell: ({ row }) => <PublishStateBadge item={row.original} />,
+            meta: { skeleton: <Skeleton className="h-6 w-20 rounded-full" /> },
+        },
+        {
+            id: 'rating',
+            header: 'Rating',
+            enableSorting: true,
+            sortDescFirst: true,
+            cell: ({ row }) => row.original.rating,
+            meta: { cellClassName: 'text-gray-500', skeleton: <Skeleton className="h-4 w-10" /> },
+        },
+        {
+            id: 'view_count',
+            header: 'Views',
+            enableSorting: true,
+            sortDescFirst: true,
+            cell: ({ row }) => row.original.view_count.toLocaleString(),
+            meta: { cellClassName: 'text-gray-500', skeleton: <Skeleton className="h-4 w-16" /> },
+        },
+        {
+            id: 'actions',
+            header: 'Actions',
+            enableHiding: false,
+            cell: ({ row }) => (
+                <div className="flex justify-end gap-2">
+                    {can('dramas:edit') && (
+                        <>
+                            <Link to={`/dramas/${row.original.id}/episodes`}>
+                                <Button size="sm" variant="ghost" title="Manage Seasons & Episodes">
+                                    <Clapperboard className="h-4 w-4" />
+                                </Button>
+                            </Link>
+                            <Link to={`/dramas/${row.original.id}/edit`}>
+                                <Button size="sm" variant="outline" title="Edit">
+                                    <Pencil className="h-4 w-4" />
+                                </Button>
+                            </Link>
+                        </>
+                    )}
+                    {can('dramas:delete') && (
+                        <Button size="sm" variant="danger" onClick={() => handleDelete(row.original)} title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    )}
+                </div>
+            ),
+            meta: {
+                headerClassName: 'text-right',
+                cellClassName: 'text-right',
+                skeleton: <Skeleton className="h-8 w-24 ml-auto" />,
+            },
+        },
+    ];
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold text-gray-800">Dramas</h1>
-                <Link to="/dramas/new">
-                    <Button>
-                        <Plus className="mr-2 h-4 w-4" />
-                        Add New Drama
-                    </Button>
-                </Link>
+                <div className="flex items-center gap-2">
+                    <ExportButton name="Dramas" columns={exportColumns} fetchRows={fetchExportRows} />
+                    {can('dramas:edit') && (
+                        <>
+                            <Link to="/dramas/import">
+                                <Button variant="outline">
+                                    <Upload className="mr-2 h-4 w-4" />
+                                    Import
+                                </Button>
+                            </Link>
+                            <Link to="/dramas/new">
+                                <Button>
+                                    <Plus className="mr-2 h-4 w-4" />
+                                    Add New Drama
+                                </Button>
+                            </Link>
+                        </>
+                    )}
+                </div>
             </div>
 
             <div className="flex flex-col gap-4 bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
@@ -181,109 +566,82 @@ export const DramaList = () => {
                 )}
             </div>
 
-            <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
-                <Table>
-                    <TableHeader>
-                        <TableRow>
-                            <TableHead>Poster</TableHead>
-                            <TableHead>Title</TableHead>
-                            <TableHead>Year</TableHead>
-                            <TableHead>Status</TableHead>
-                            <TableHead>Stats</TableHead>
-                            <TableHead className="text-right">Actions</TableHead>
-                        </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                        {isLoading ? (
-                            Array.from({ length: 5 }).map((_, i) => (
-                                <TableRow key={i}>
-                                    <TableCell><Skeleton className="h-16 w-12 rounded" /></TableCell>
-                                    <TableCell>
-                                        <div className="space-y-2">
-                                            <Skeleton className="h-4 w-48" />
-                                            <Skeleton className="h-3 w-32" />
-                                        </div>
-                                    </TableCell>
-                                    <TableCell><Skeleton className="h-4 w-12" /></TableCell>
-                                    <TableCell><Skeleton className="h-6 w-16 rounded-full" /></TableCell>
-                                    <TableCell><Skeleton className="h-4 w-24" /></TableCell>
-                                    <TableCell className="text-right"><Skeleton className="h-8 w-24 ml-auto" /></TableCell>
-                                </TableRow>
-                            ))
-                        ) : dramas.length === 0 ? (
-                            <TableRow>
-                                <TableCell colSpan={6} className="text-center py-8 text-gray-500">No dramas found.</TableCell>
-                            </TableRow>
-                        ) : (
-                            dramas.map((drama) => (
-                                <TableRow key={drama.id}>
-                                    <TableCell>
-                                        <img
-                                            src={drama.poster_url}
-                                            alt={drama.title}
-                                            className="h-16 w-12 rounded object-cover bg-gray-100"
-                                            onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/48x64?text=No+Img' }}
-                                        />
-                                    </TableCell>
-                                    <TableCell className="font-medium">
-                                        <div>{drama.title}</div>
-                                        <div className="text-xs text-gray-500 line-clamp-1">{drama.synopsis}</div>
-                                    </TableCell>
-                                    <TableCell>{drama.year}</TableCell>
-                                    <TableCell>
-                                        <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${drama.status === 'ongoing' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                                            }`}>
-                                            {drama.status}
-                                        </span>
-                                    </TableCell>
-                                    <TableCell>
-                                        <div className="text-xs text-gray-500">
-                                            <div>Rating: {drama.rating}</div>
-                                            <div>Views: {drama.view_count}</div>
-                                        </div>
-                                    </TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex justify-end gap-2">
-                                            <Link to={`/dramas/${drama.id}/episodes`}>
-                                                <Button size="sm" variant="ghost" title="Manage Seasons & Episodes">
-                                                    <Clapperboard className="h-4 w-4" />
-                                                </Button>
-                                            </Link>
-                                            <Link to={`/dramas/${drama.id}/edit`}>
-                                                <Button size="sm" variant="outline" title="Edit">
-                                                    <Pencil className="h-4 w-4" />
-                                                </Button>
-                                            </Link>
-                                            <Button size="sm" variant="danger" onClick={() => handleDelete(drama.id)} title="Delete">
-                                                <Trash2 className="h-4 w-4" />
-                                            </Button>
-                                        </div>
-                                    </TableCell>
-                                </TableRow>
-                            ))
+            {selectedCount > 0 && (
+                <div className="flex flex-wrap items-center gap-3 rounded-lg border border-primary-100 bg-primary-50 px-4 py-3">
+                    <span className="text-sm font-medium text-primary-700">
+                        {selectAllMatching ? `All ${total} matching dramas selected` : `${selectedCount} selected`}
+                    </span>
+                    {!selectAllMatching && isPageSelected && total > dramas.length && (
+                        <button
+                            type="button"
+                            className="text-sm font-medium text-primary-600 underline hover:text-primary-800"
+                            onClick={() => setSelectAllMatching(true)}
+                        >
+                            Select all {total} matching dramas
+                        </button>
+                    )}
+                    <div className="ml-auto flex flex-wrap items-center gap-2">
+                        {can('dramas:edit') && (
+                            <>
+                                <Button size="sm" variant="outline" disabled={isBulkRunning} onClick={() => handleBulkStatus('ongoing')}>
+                                    Mark Ongoing
+                                </Button>
+                                <Button size="sm" variant="outline" disabled={isBulkRunning} onClick={() => handleBulkStatus('completed')}>
+                                    Mark Completed
+                                </Button>
+                                <select
+                                    aria-label="Genre for bulk action"
+                                    className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                    value={bulkGenreId}
+                                    onChange={(e) => setBulkGenreId(e.target.value)}
+                                >
+                                    <option value="">Genre...</option>
+                                    {genres.map((g) => <option key={g.id} value={g.id}>{g.name}</option>)}
+                                </select>
+                                <Button size="sm" variant="outline" disabled={!bulkGenreId || isBulkRunning} onClick={() => handleBulkGenre('add')}>
+                                    Add Genre
+                                </Button>
+                                <Button size="sm" variant="outline" disabled={!bulkGenreId || isBulkRunning} onClick={() => handleBulkGenre('remove')}>
+                                    Remove Genre
+                                </Button>
+                            </>
                         )}
-                    </TableBody>
-                </Table>
-            </div>
+                        {can('dramas:delete') && (
+                            <Button size="sm" variant="danger" disabled={isBulkRunning} onClick={handleBulkDelete}>
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button size="sm" variant="ghost" disabled={isBulkRunning} onClick={clearSelection} title="Clear selection">
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            )}
 
-            {/* Pagination (Simple) */}
-            <div className="flex items-center justify-end gap-2">
-                <Button
-                    variant="outline"
-                    disabled={page <= 1}
-                    onClick={() => setSearchParams({ page: String(page - 1), search, status, genre: genreId, sort })}
-                >
-                    Previous
-                </Button>
-                <span className="text-sm text-gray-600">Page {page}</span>
-                <Button
-                    variant="outline"
-                    disabled={dramas.length < 10} // Simple check
-                    onClick={() => setSearchParams({ page: String(page + 1), search, status, genre: genreId, sort })}
-                >
-                    Next
-                </Button>
-            </div>
+            <DataTable
+                tableId="dramas"
+                columns={columns}
+                data={dramas}
+                getRowId={(drama) => drama.id}
+                isLoading={isLoading}
+                emptyMessage="No dramas found."
+                sorting={parseSortParam(sort, SORT_COLUMNS)}
+                onSortingChange={(sorting) => handleFilterChange('sort', formatSortParam(sorting, SORT_COLUMNS) || 'popular')}
+                isRowSelected={(drama) => selectAllMatching || selected.has(drama.id)}
+                pagination={{
+                    page,
+                    pageSize: limit,
+                    pageCount: total ? Math.ceil(total / limit) : undefined,
+                    onPageChange: (next) => setSearchParams(mergeSearchParams(searchParams, { page: next })),
+                    onPageSizeChange: (size) => {
+                        clearSelection();
+                        setSearchParams(mergeSearchParams(searchParams, { page: 1, limit: size }));
+                    },
+                }}
+            />
+
+            <BulkFailureDialog report={failureReport} onOpenChange={(open) => !open && setFailureReport(null)} />
         </div>
     );
 };
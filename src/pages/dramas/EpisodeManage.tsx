@@ -1,44 +1,52 @@
 import { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { dramaService } from '../../services/drama';
 import { seasonService, episodeService } from '../../services/episode';
+import { trashService } from '../../services/trash';
 import type { Drama, Season, Episode } from '../../types';
 import { Button } from '../../components/ui/Button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../components/ui/Table';
-import { ArrowLeft, Plus, Trash2, Pencil, PlayCircle } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Pencil, PlayCircle, Upload, GripVertical, AlertTriangle, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import { confirmAction } from '../../stores/confirmStore';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../../components/ui/Dialog';
 import { useForm } from 'react-hook-form';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { cn } from '../../utils/cn';
 import { Input } from '../../components/ui/Input';
 import { Skeleton } from '../../components/ui/Skeleton';
-
-const episodeSchema = z.object({
-    title: z.string().min(1, 'Title is required'),
-    episode_number: z.coerce.number().min(1),
-    duration: z.coerce.number().min(1),
-    video_url: z.string().url('Invalid URL'),
-    thumbnail_url: z.string().url('Invalid URL').optional().or(z.literal('')),
-});
-
-type EpisodeFormData = z.infer<typeof episodeSchema>;
+import { episodeSchema, validateVideoHost, type EpisodeFormData } from '../../schemas/episode';
+import { useDragReorder } from '../../hooks/useDragReorder';
+import { SeasonEditDialog } from '../../components/dramas/SeasonEditDialog';
+import { parseDate } from '../../utils/date';
+import { PublishFields } from '../../components/dramas/PublishFields';
+import { PublishStateBadge } from '../../components/dramas/PublishStateBadge';
+import { VideoPreview } from '../../components/dramas/VideoPreview';
+import { ImageUploadField } from '../../components/media/ImageUploadField';
+import { VideoPreviewDialog } from '../../components/dramas/VideoPreviewDialog';
+import { toPublishFormValues, toPublishPayload } from '../../utils/publishing';
+import { byEpisodeNumber, findNumberingIssues, hasNumberingIssues, renumberEpisodes } from '../../utils/episodes';
+import { toastWithUndo } from '../../utils/undo';
 
 export const EpisodeManage = () => {
     const { dramaId } = useParams();
     const [drama, setDrama] = useState<Drama | null>(null);
     const [seasons, setSeasons] = useState<Season[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [selectedSeason, setSelectedSeason] = useState<string | null>(null);
+    const [searchParams] = useSearchParams();
+    // `?season=` opens a specific season, e.g. from the content health report
+    const [selectedSeason, setSelectedSeason] = useState<string | null>(searchParams.get('season'));
     const [isDialogOpen, setIsDialogOpen] = useState(false);
 
     // Form for new episode
-    const { register, handleSubmit, reset, formState: { errors } } = useForm<EpisodeFormData>({
+    const { register, handleSubmit, reset, watch, setValue, setError, control, formState: { errors } } = useForm<EpisodeFormData>({
         resolver: zodResolver(episodeSchema) as any,
     });
 
     const [editingEpisode, setEditingEpisode] = useState<Episode | null>(null);
+    // Bumped to remount the episode list after saving from the dialog
+    const [episodesVersion, setEpisodesVersion] = useState(0);
+    const [editingSeason, setEditingSeason] = useState<Season | null>(null);
 
     // Fetch Drama & Seasons
     const fetchData = async () => {
@@ -50,7 +58,7 @@ export const EpisodeManage = () => {
                 seasonService.getByDrama(dramaId)
             ]);
             setDrama(dramaData);
-            setSeasons(seasonsData || []);
+            setSeasons([...(seasonsData || [])].sort((a, b) => a.season_number - b.season_number));
             if (seasonsData && seasonsData.length > 0 && !selectedSeason) {
                 setSelectedSeason(seasonsData[0].id);
             }
@@ -68,17 +76,28 @@ export const EpisodeManage = () => {
     const handleCreateOrUpdateEpisode = async (data: any) => {
         if (!selectedSeason) return;
 
+        const videoError = validateVideoHost(data.video_url, editingEpisode?.video_url);
+        if (videoError) {
+            setError('video_url', { message: videoError });
+            return;
+        }
+
         // Convert Duration from Minutes to Seconds
         const payload = {
             ...data,
             duration: Number(data.duration) * 60, // Minutes to Seconds
+            ...toPublishPayload(data),
             season_id: selectedSeason,
         };
 
         try {
             if (editingEpisode) {
-                await episodeService.update(editingEpisode.id, payload);
-                toast.success('Episode updated');
+                const { id, episode_number, title, duration, video_url, thumbnail_url, publish_state, publish_at } = editingEpisode;
+                await episodeService.update(id, payload);
+                toastWithUndo('Episode updated', {
+                    undo: () => episodeService.update(id, { episode_number, title, duration, video_url, thumbnail_url, publish_state, publish_at }),
+                    onUndone: () => setEpisodesVersion((version) => version + 1),
+                });
             } else {
                 await episodeService.create({
                     ...payload,
@@ -89,7 +108,7 @@ export const EpisodeManage = () => {
             setIsDialogOpen(false);
             setEditingEpisode(null);
             reset();
-            window.location.reload();
+            setEpisodesVersion((version) => version + 1);
         } catch (error) {
             toast.error(editingEpisode ? 'Failed to update episode' : 'Failed to create episode');
         }
@@ -102,7 +121,9 @@ export const EpisodeManage = () => {
             title: '',
             duration: 60, // Default 60 mins
             video_url: '',
-            thumbnail_url: ''
+            thumbnail_url: '',
+            publish_state: 'published',
+            publish_at: ''
         });
         setIsDialogOpen(true);
     };
@@ -115,7 +136,8 @@ export const EpisodeManage = () => {
             title: episode.title,
             duration: Math.round(episode.duration / 60), // Seconds to Minutes
             video_url: episode.video_url,
-            thumbnail_url: episode.thumbnail_url
+            thumbnail_url: episode.thumbnail_url,
+            ...toPublishFormValues(episode)
         });
         setIsDialogOpen(true);
     };
@@ -123,7 +145,7 @@ export const EpisodeManage = () => {
     // Create Default Season if none exists
     const handleCreateSeason = async () => {
         if (!dramaId) return;
-        const seasonNumber = seasons.length + 1;
+        const seasonNumber = Math.max(0, ...seasons.map((s) => s.season_number)) + 1;
         try {
             await seasonService.create({
                 drama_id: dramaId,
@@ -137,31 +159,75 @@ export const EpisodeManage = () => {
         }
     };
 
-    const handleDeleteSeason = async (seasonId: string) => {
-        if (!confirm("Are you sure you want to delete this season? All episodes in it will be lost.")) return;
+    const handleDeleteSeason = async (season: Season) => {
+        const confirmed = await confirmAction({
+            title: `Delete "${season.title}"?`,
+            description: 'The season moves to the trash and can be restored from there.',
+            confirmLabel: 'Move to Trash',
+            errorTypeToConfirm: season.title,
+            impact: async () => {
+                const episodes = (await episodeService.getBySeason(season.id)) || [];
+                if (episodes.length === 0) return { items: ['No episodes'] };
+                return {
+                    items: [`${episodes.length} ${episodes.length === 1 ? 'episode goes' : 'episodes go'} to the trash with it`],
+                    typeToConfirm: season.title,
+                };
+            },
+        });
+        if (!confirmed) return;
         try {
-            await seasonService.delete(seasonId);
-            toast.success('Season deleted');
-            if (selectedSeason === seasonId) setSelectedSeason(null);
+            await seasonService.delete(season.id);
+            toastWithUndo('Season moved to trash', {
+                undo: () => trashService.restore('season', season.id),
+                onUndone: fetchData,
+            });
+            if (selectedSeason === season.id) setSelectedSeason(null);
             fetchData();
         } catch (error) {
             toast.error('Failed to delete season');
         }
     };
 
+    // Seasons are renumbered 1..n in the dropped order and saved straight away
+    const handleReorderSeasons = async (next: Season[]) => {
+        if (!dramaId) return;
+        const previous = seasons;
+        const renumbered = next.map((season, index) => ({ ...season, season_number: index + 1 }));
+        setSeasons(renumbered);
+        try {
+            await seasonService.reorder(dramaId, renumbered.map(({ id, season_number }) => ({ id, season_number })));
+            toast.success('Season order saved');
+        } catch (error) {
+            console.error('Failed to reorder seasons', error);
+            toast.error('Failed to reorder seasons');
+            setSeasons(previous);
+        }
+    };
+
+    const seasonDrag = useDragReorder(seasons, handleReorderSeasons);
+    const currentSeason = seasons.find((s) => s.id === selectedSeason);
+
     return (
         <div className="space-y-6">
-            <div className="flex items-center gap-4">
-                <Link to="/dramas">
-                    <Button variant="ghost" size="sm">
-                        <ArrowLeft className="h-4 w-4 mr-1" />
-                        Back to Dramas
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Link to="/dramas">
+                        <Button variant="ghost" size="sm">
+                            <ArrowLeft className="h-4 w-4 mr-1" />
+                            Back to Dramas
+                        </Button>
+                    </Link>
+                    <div>
+                        <h1 className="text-2xl font-bold text-gray-800">Manage Episodes</h1>
+                        {drama && <p className="text-gray-500">{drama.title} ({drama.year})</p>}
+                    </div>
+                </div>
+                <Link to={`/dramas/import?drama=${dramaId}`}>
+                    <Button variant="outline">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import Episodes
                     </Button>
                 </Link>
-                <div>
-                    <h1 className="text-2xl font-bold text-gray-800">Manage Episodes</h1>
-                    {drama && <p className="text-gray-500">{drama.title} ({drama.year})</p>}
-                </div>
             </div>
 
             <div className="flex gap-6">
@@ -182,23 +248,42 @@ export const EpisodeManage = () => {
                                 ))
                             ) : (
                                 <>
-                                    {Array.isArray(seasons) && seasons.map(season => (
+                                    {Array.isArray(seasons) && seasons.map((season, index) => (
                                         <div
                                             key={season.id}
+                                            {...seasonDrag.getRowProps(index)}
                                             className={cn(
-                                                "w-full flex items-center justify-between px-3 py-2 rounded-md text-sm font-medium transition-colors cursor-pointer group",
+                                                "w-full flex items-center justify-between gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors cursor-pointer group",
                                                 selectedSeason === season.id
                                                     ? 'bg-primary-50 text-primary-700'
-                                                    : 'text-gray-600 hover:bg-gray-50'
+                                                    : 'text-gray-600 hover:bg-gray-50',
+                                                seasonDrag.dragIndex === index && 'opacity-50',
+                                                seasonDrag.overIndex === index && seasonDrag.dragIndex !== index && 'ring-2 ring-primary-300'
                                             )}
                                             onClick={() => setSelectedSeason(season.id)}
                                         >
-                                            <span>{season.title}</span>
+                                            <span {...seasonDrag.getHandleProps(index)} className="cursor-grab text-gray-300 hover:text-gray-500 focus:outline-none focus:text-primary-600">
+                                                <GripVertical className="h-4 w-4" />
+                                            </span>
+                                            <span className="flex-1 truncate">
+                                                <span className="mr-1 text-xs text-gray-400">S{season.season_number}</span>
+                                                {season.title}
+                                            </span>
+                                            <button
+                                                className="opacity-0 group-hover:opacity-100 p-1 hover:text-primary-600 transition-opacity"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setEditingSeason(season);
+                                                }}
+                                                title="Edit Season"
+                                            >
+                                                <Pencil className="h-4 w-4" />
+                                            </button>
                                             <button
                                                 className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-500 transition-opacity"
                                                 onClick={(e) => {
                                                     e.stopPropagation();
-                                                    handleDeleteSeason(season.id);
+                                                    handleDeleteSeason(season);
                                                 }}
                                                 title="Delete Season"
                                             >
@@ -220,12 +305,19 @@ export const EpisodeManage = () => {
                     {selectedSeason ? (
                         <div className="space-y-4">
                             <div className="flex items-center justify-between">
-                                <h3 className="font-semibold text-gray-800">Episodes List</h3>
+                                <div>
+                                    <h3 className="font-semibold text-gray-800">Episodes List</h3>
+                                    {currentSeason?.release_date && (
+                                        <p className="text-xs text-gray-500">
+                                            {currentSeason.title} · Released {parseDate(currentSeason.release_date).toLocaleDateString()}
+                                        </p>
+                                    )}
+                                </div>
                                 <Button size="sm" onClick={openCreateDialog}><Plus className="h-4 w-4 mr-2" />Add Episode</Button>
                             </div>
                             <EpisodeList
                                 seasonId={selectedSeason}
-                                key={selectedSeason}
+                                key={`${selectedSeason}:${episodesVersion}`}
                                 onEdit={openEditDialog}
                             />
                         </div>
@@ -236,8 +328,14 @@ export const EpisodeManage = () => {
                     )}
                 </div>
 
+                <SeasonEditDialog
+                    season={editingSeason}
+                    onOpenChange={(open) => !open && setEditingSeason(null)}
+                    onSaved={(updated) => setSeasons((current) => current.map((s) => (s.id === updated.id ? { ...s, ...updated } : s)))}
+                />
+
                 <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                    <DialogContent>
+                    <DialogContent className="max-h-[90vh] overflow-y-auto">
                         <DialogHeader>
                             <DialogTitle>{editingEpisode ? 'Edit Episode' : 'Add New Episode'}</DialogTitle>
                         </DialogHeader>
@@ -252,7 +350,17 @@ export const EpisodeManage = () => {
                             </div>
                             <Input label="Duration (minutes)" type="number" {...register('duration')} error={errors.duration?.message} />
                             <Input label="Video URL" {...register('video_url')} error={errors.video_url?.message} />
-                            <Input label="Thumbnail URL" {...register('thumbnail_url')} error={errors.thumbnail_url?.message} />
+                            <VideoPreview
+                                url={watch('video_url')}
+                                onUseEmbedUrl={(embedUrl) => setValue('video_url', embedUrl, { shouldValidate: true, shouldDirty: true })}
+                            />
+                            <ImageUploadField control={control} name="thumbnail_url" label="Thumbnail" preset="thumbnail" />
+                            <PublishFields
+                                state={watch('publish_state')}
+                                stateField={register('publish_state')}
+                                publishAtField={register('publish_at')}
+                                error={errors.publish_at?.message}
+                            />
 
                             <DialogFooter>
                                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
@@ -270,12 +378,17 @@ export const EpisodeManage = () => {
 const EpisodeList = ({ seasonId, onEdit }: { seasonId: string, onEdit: (ep: Episode) => void }) => {
     const [episodes, setEpisodes] = useState<Episode[]>([]);
     const [loading, setLoading] = useState(true);
+    // Unsaved order after dragging or renumbering; null when the list matches the server
+    const [draft, setDraft] = useState<Episode[] | null>(null);
+    const [isSavingOrder, setIsSavingOrder] = useState(false);
+    const [previewEpisode, setPreviewEpisode] = useState<Episode | null>(null);
 
     const fetchEpisodes = async () => {
         setLoading(true);
         try {
             const data = await episodeService.getBySeason(seasonId);
-            setEpisodes(data || []);
+            setEpisodes([...(data || [])].sort(byEpisodeNumber));
+            setDraft(null);
         } catch (error) {
             console.error(error);
         } finally {
@@ -287,37 +400,88 @@ const EpisodeList = ({ seasonId, onEdit }: { seasonId: string, onEdit: (ep: Epis
         fetchEpisodes();
     }, [seasonId]);
 
-    const handleDelete = async (id: string) => {
-        if (!confirm("Delete episode?")) return;
-        await episodeService.delete(id);
-        fetchEpisodes();
-        toast.success("Episode deleted");
-    }
+    const rows = draft ?? episodes;
+    const savedNumbers = new Map(episodes.map((ep) => [ep.id, ep.episode_number]));
+    const issues = findNumberingIssues(episodes);
+    const { dragIndex, overIndex, getRowProps, getHandleProps } = useDragReorder(
+        rows,
+        (next) => setDraft(renumberEpisodes(next))
+    );
+
+    const handleSaveOrder = async () => {
+        if (!draft) return;
+        setIsSavingOrder(true);
+        try {
+            await episodeService.reorder(seasonId, draft.map(({ id, episode_number }) => ({ id, episode_number })));
+            toast.success('Episode order saved');
+            fetchEpisodes();
+        } catch (error) {
+            console.error('Failed to save episode order', error);
+            toast.error('Failed to save episode order');
+        } finally {
+            setIsSavingOrder(false);
+        }
+    };
 
-const handlePlay = (url: string) => {
-    if (url) {
-        const newWindow = window.open(url, '_blank', 'noreferrer');
-        // Jika browser memblokir window.open, fallback ke link manual:
-        if (!newWindow) {
-            const link = document.createElement('a');
-            link.href = url;
-            link.target = '_blank';
-            link.rel = 'noreferrer'; // Ini kuncinya
-            link.click();
+    const handleDelete = async (episode: Episode) => {
+        const confirmed = await confirmAction({
+            title: `Delete episode ${episode.episode_number}?`,
+            description: `"${episode.title}" moves to the trash and can be restored from there.`,
+            confirmLabel: 'Move to Trash',
+        });
+        if (!confirmed) return;
+        try {
+            await episodeService.delete(episode.id);
+            toastWithUndo('Episode moved to trash', {
+                undo: () => trashService.restore('episode', episode.id),
+                onUndone: fetchEpisodes,
+            });
+            fetchEpisodes();
+        } catch (error) {
+            console.error('Failed to delete episode', error);
+            toast.error('Failed to delete episode');
         }
-    } else {
-        toast.error("No video URL available");
     }
-}
+
     return (
         <div className="space-y-4">
+            {!loading && !draft && hasNumberingIssues(issues) && (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+                    <div className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                        <span>
+                            {issues.duplicates.length > 0 && <>Duplicate numbers: {issues.duplicates.join(', ')}. </>}
+                            {issues.missing.length > 0 && <>Missing numbers: {issues.missing.join(', ')}.</>}
+                        </span>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => setDraft(renumberEpisodes(episodes))}>
+                        Renumber 1–{episodes.length}
+                    </Button>
+                </div>
+            )}
+
+            {draft && (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-primary-100 bg-primary-50 px-4 py-3 text-sm text-primary-700">
+                    <span>Episodes have been renumbered. Save to apply the new order.</span>
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" disabled={isSavingOrder} onClick={() => setDraft(null)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Reset
+                        </Button>
+                        <Button size="sm" isLoading={isSavingOrder} onClick={handleSaveOrder}>Save Order</Button>
+                    </div>
+                </div>
+            )}
+
             <Table>
                 <TableHeader>
                     <TableRow>
+                        <TableHead className="w-8"><span className="sr-only">Reorder</span></TableHead>
                         <TableHead>#</TableHead>
                         <TableHead>Title</TableHead>
                         <TableHead>Duration</TableHead>
                         <TableHead>Views</TableHead>
+                        <TableHead>Visibility</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                 </TableHeader>
@@ -325,34 +489,59 @@ const handlePlay = (url: string) => {
                     {loading ? (
                         Array.from({ length: 5 }).map((_, i) => (
                             <TableRow key={i}>
+                                <TableCell><Skeleton className="h-4 w-4" /></TableCell>
                                 <TableCell><Skeleton className="h-4 w-8" /></TableCell>
                                 <TableCell><Skeleton className="h-4 w-48" /></TableCell>
                                 <TableCell><Skeleton className="h-4 w-16" /></TableCell>
                                 <TableCell><Skeleton className="h-4 w-12" /></TableCell>
+                                <TableCell><Skeleton className="h-6 w-20 rounded-full" /></TableCell>
                                 <TableCell className="text-right"><Skeleton className="h-8 w-24 ml-auto" /></TableCell>
                             </TableRow>
                         ))
-                    ) : !episodes || episodes.length === 0 ? (
-                        <TableRow><TableCell colSpan={5} className="text-center py-8 text-gray-400">No episodes yet.</TableCell></TableRow>
+                    ) : !rows || rows.length === 0 ? (
+                        <TableRow><TableCell colSpan={7} className="text-center py-8 text-gray-400">No episodes yet.</TableCell></TableRow>
                     ) : (
-                        episodes.map(ep => (
-                            <TableRow key={ep.id}>
-                                <TableCell>{ep.episode_number}</TableCell>
-                                <TableCell className="font-medium">{ep.title}</TableCell>
-                                <TableCell>{Math.round(ep.duration / 60)}m</TableCell>
-                                <TableCell>{ep.view_count}</TableCell>
-                                <TableCell className="text-right">
-                                    <div className="flex justify-end gap-2">
-                                        <Button size="sm" variant="ghost" title="Preview" onClick={() => handlePlay(ep.video_url)}><PlayCircle className="h-4 w-4" /></Button>
-                                        <Button size="sm" variant="outline" onClick={() => onEdit(ep)}><Pencil className="h-4 w-4" /></Button>
-                                        <Button size="sm" variant="danger" onClick={() => handleDelete(ep.id)}><Trash2 className="h-4 w-4" /></Button>
-                                    </div>
-                                </TableCell>
-                            </TableRow>
-                        ))
+                        rows.map((ep, index) => {
+                            const savedNumber = savedNumbers.get(ep.id);
+                            return (
+                                <TableRow
+                                    key={ep.id}
+                                    {...getRowProps(index)}
+                                    className={cn(
+                                        dragIndex === index && 'opacity-50',
+                                        overIndex === index && dragIndex !== index && 'border-t-2 border-t-primary-500'
+                                    )}
+                                >
+                                    <TableCell>
+                                        <span {...getHandleProps(index)} className="cursor-grab text-gray-400 hover:text-gray-600 focus:outline-none focus:text-primary-600">
+                                            <GripVertical className="h-4 w-4" />
+                                        </span>
+                                    </TableCell>
+                                    <TableCell>
+                                        {ep.episode_number}
+                                        {savedNumber !== undefined && savedNumber !== ep.episode_number && (
+                                            <span className="ml-1 text-xs text-gray-400 line-through">{savedNumber}</span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="font-medium">{ep.title}</TableCell>
+                                    <TableCell>{Math.round(ep.duration / 60)}m</TableCell>
+                                    <TableCell>{ep.view_count}</TableCell>
+                                    <TableCell><PublishStateBadge item={ep} /></TableCell>
+                                    <TableCell className="text-right">
+                                        <div className="flex justify-end gap-2">
+                                            <Button size="sm" variant="ghost" title="Preview" onClick={() => setPreviewEpisode(ep)}><PlayCircle className="h-4 w-4" /></Button>
+                                            <Button size="sm" variant="outline" disabled={!!draft} onClick={() => onEdit(ep)}><Pencil className="h-4 w-4" /></Button>
+                                            <Button size="sm" variant="danger" disabled={!!draft} onClick={() => handleDelete(ep)}><Trash2 className="h-4 w-4" /></Button>
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })
                     )}
                 </TableBody>
             </Table>
+
+            <VideoPreviewDialog episode={previewEpisode} onOpenChange={(open) => !open && setPreviewEpisode(null)} />
         </div>
     );
 }
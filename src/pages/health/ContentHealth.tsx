@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, CheckCircle2, ExternalLink, Loader2, Pause, Play, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader } from '@/components/ui/Card';
+import { cn } from '@/utils/cn';
+import { getScanProgress, useLinkScanStore } from '@/stores/linkScanStore';
+import { describeLinkResult, groupLinkIssues, SLOW_LINK_MS, type LinkHealth } from '@/utils/linkScan';
+
+type IssueFilter = Exclude<LinkHealth, 'ok'> | 'all';
+
+const filters: { value: IssueFilter; label: string }[] = [
+    { value: 'all', label: 'All issues' },
+    { value: 'broken', label: 'Broken' },
+    { value: 'slow', label: 'Slow' },
+];
+
+const formatScanTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ContentHealth = () => {
+    const { targets, results, startedAt, finishedAt, phase, collected, error, start, resume, pause } = useLinkScanStore();
+    const [filter, setFilter] = useState<IssueFilter>('all');
+
+    const { checked, total } = getScanProgress(targets, results);
+    const isRunning = phase !== 'idle';
+    const canResume = !isRunning && !!startedAt && !finishedAt;
+    const groups = groupLinkIssues(targets ?? [], results);
+    const issues = groups.flatMap((group) => group.issues);
+    const brokenCount = issues.filter((issue) => issue.health === 'broken').length;
+    const slowCount = issues.length - brokenCount;
+    const visibleGroups = groups
+        .map((group) => ({ ...group, issues: group.issues.filter((issue) => filter === 'all' || issue.health === filter) }))
+        .filter((group) => group.issues.length > 0);
+
+    const percent = phase === 'collecting'
+        ? (collected ? Math.round((collected.done / Math.max(collected.total, 1)) * 100) : 0)
+        : total ? Math.round((checked / total) * 100) : 0;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800">Content Health</h1>
+                    <p className="text-sm text-gray-500">
+                        Checks every poster, actor photo, thumbnail and video URL. Links slower than {SLOW_LINK_MS / 1000}s are reported as slow.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {isRunning ? (
+                        <Button variant="outline" onClick={pause}>
+                            <Pause className="mr-2 h-4 w-4" />
+                            Pause
+                        </Button>
+                    ) : canResume ? (
+                        <Button variant="outline" onClick={resume}>
+                            <Play className="mr-2 h-4 w-4" />
+                            Resume
+                        </Button>
+                    ) : null}
+                    <Button onClick={start} disabled={isRunning}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {startedAt ? 'New Scan' : 'Start Scan'}
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardContent className="space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span className="inline-flex items-center gap-2 font-medium text-gray-800">
+                            {isRunning && <Loader2 className="h-4 w-4 animate-spin text-primary-600" />}
+                            {phase === 'collecting'
+                                ? `Collecting links${collected ? ` (${collected.done} of ${collected.total} dramas)` : ''}...`
+                                : phase === 'checking'
+                                    ? `Checking ${checked} of ${total} links...`
+                                    : finishedAt
+                                        ? `Checked ${total} links`
+                                        : startedAt
+                                            ? `Paused after ${checked} of ${total} links`
+                                            : 'No scan yet'}
+                        </span>
+                        {startedAt && (
+                            <span className="text-gray-500">
+                                Started {formatScanTime(startedAt)}
+                                {finishedAt && ` · finished ${formatScanTime(finishedAt)}`}
+                            </span>
+                        )}
+                    </div>
+                    <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+                        <div className="h-full bg-primary-600 transition-all" style={{ width: `${percent}%` }} />
+                    </div>
+                    {error && (
+                        <p className="flex items-center gap-2 text-sm text-red-600">
+                            <AlertTriangle className="h-4 w-4" />
+                            {error}
+                        </p>
+                    )}
+                    {startedAt && (
+                        <div className="flex gap-6 text-sm">
+                            <span className="text-red-600"><span className="font-semibold">{brokenCount}</span> broken</span>
+                            <span className="text-yellow-700"><span className="font-semibold">{slowCount}</span> slow</span>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {issues.length > 0 && (
+                <div className="flex gap-2">
+                    {filters.map((option) => (
+                        <Button
+                            key={option.value}
+                            size="sm"
+                            variant={filter === option.value ? 'primary' : 'outline'}
+                            onClick={() => setFilter(option.value)}
+                        >
+                            {option.label}
+                        </Button>
+                    ))}
+                </div>
+            )}
+
+            {startedAt && !isRunning && issues.length === 0 && !error && finishedAt && (
+                <Card>
+                    <CardContent className="flex items-center justify-center gap-2 py-10 text-sm text-green-700">
+                        <CheckCircle2 className="h-5 w-5" />
+                        All links are working.
+                    </CardContent>
+                </Card>
+            )}
+
+            {visibleGroups.map((group) => (
+                <Card key={group.id}>
+                    <CardHeader className="flex flex-row items-center justify-between">
+                        <h3 className="text-lg font-semibold text-gray-800">{group.title}</h3>
+                        <span className="text-sm text-gray-500">{group.issues.length} {group.issues.length === 1 ? 'issue' : 'issues'}</span>
+                    </CardHeader>
+                    <CardContent>
+                        <ul className="divide-y divide-gray-100">
+                            {group.issues.map(({ target, result, health }) => (
+                                <li key={`${target.label}-${target.url}`} className="flex items-center gap-3 py-2">
+                                    <span className={cn(
+                                        'w-20 flex-shrink-0 rounded-full px-2 py-0.5 text-center text-xs font-medium',
+                                        health === 'broken' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+                                    )}>
+                                        {health === 'broken' ? 'Broken' : 'Slow'}
+                                    </span>
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-sm font-medium text-gray-900">{target.label}</p>
+                                        <a
+                                            href={target.url}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="inline-flex max-w-full items-center gap-1 text-xs text-gray-500 hover:text-primary-600"
+                                        >
+                                            <span className="truncate">{target.url}</span>
+                                            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                                        </a>
+                                    </div>
+                                    <span className="whitespace-nowrap text-sm text-gray-600">{describeLinkResult(result)}</span>
+                                    <Link to={target.fixPath}>
+                                        <Button size="sm" variant="outline">Fix</Button>
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Copy, Flag, FlagOff, ImageOff, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { mediaService, type MediaFilter } from '@/services/media';
+import type { MediaAsset, MediaKind } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { cn } from '@/utils/cn';
+import { formatShortDate } from '@/utils/date';
+import { IMAGE_PRESETS } from '@/utils/image';
+import { describeMediaUsage, formatFileSize, getMediaUsageCount, MEDIA_KIND_LABELS } from '@/utils/media';
+import { mergeSearchParams } from '@/utils/table';
+import { confirmAction } from '@/stores/confirmStore';
+
+const PAGE_SIZE = 24;
+
+const kindOptions = [
+    { label: 'All types', value: '' },
+    ...(Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).map((kind) => ({ label: MEDIA_KIND_LABELS[kind], value: kind })),
+];
+
+const filterOptions: { label: string; value: MediaFilter | '' }[] = [
+    { label: 'All assets', value: '' },
+    { label: 'Unused', value: 'unused' },
+    { label: 'Flagged for cleanup', value: 'flagged' },
+];
+
+const isMediaKind = (value: string | null): value is MediaKind => !!value && value in MEDIA_KIND_LABELS;
+
+const isMediaFilter = (value: string | null): value is MediaFilter => value === 'unused' || value === 'flagged';
+
+const AssetImage = ({ asset }: { asset: MediaAsset }) => {
+    const [hasFailed, setHasFailed] = useState(false);
+    const style = { aspectRatio: IMAGE_PRESETS[asset.kind]?.aspect ?? 1 };
+
+    if (hasFailed) {
+        return (
+            <div style={style} className="flex w-full flex-col items-center justify-center gap-1 bg-gray-100 text-xs text-gray-400">
+                <ImageOff className="h-5 w-5" />
+                Could not load
+            </div>
+        );
+    }
+    return (
+        <img
+            src={asset.url}
+            alt={asset.filename}
+            loading="lazy"
+            style={style}
+            className="w-full bg-gray-100 object-cover"
+            onError={() => setHasFailed(true)}
+        />
+    );
+};
+
+export const MediaLibrary = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [assets, setAssets] = useState<MediaAsset[]>([]);
+    const [totalPages, setTotalPages] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [reloadKey, setReloadKey] = useState(0); // bumped to refetch the current page
+
+    const page = Number(searchParams.get('page')) || 1;
+    const search = searchParams.get('search') || '';
+    const kindParam = searchParams.get('kind');
+    const kind = isMediaKind(kindParam) ? kindParam : undefined;
+    const filterParam = searchParams.get('filter');
+    const filter = isMediaFilter(filterParam) ? filterParam : undefined;
+
+    useEffect(() => {
+        const fetchAssets = async () => {
+            setIsLoading(true);
+            try {
+                const data = await mediaService.getAll({ page, limit: PAGE_SIZE, search: search || undefined, kind, filter });
+                setAssets(data.items || []);
+                setTotalPages(data.total_pages || 1);
+            } catch (error) {
+                console.error('Failed to fetch media', error);
+                toast.error('Failed to load media library');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchAssets();
+    }, [page, search, kind, filter, reloadKey]);
+
+    const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, search: formData.get('search') as string }));
+    };
+
+    const handleCopy = async (asset: MediaAsset) => {
+        try {
+            await navigator.clipboard.writeText(asset.url);
+            toast.success('URL copied');
+        } catch {
+            toast.error('Could not copy URL');
+        }
+    };
+
+    const handleToggleFlag = async (asset: MediaAsset) => {
+        const flagged = !asset.flagged_for_cleanup;
+        try {
+            const updated = await mediaService.setCleanupFlag(asset.id, flagged);
+            setAssets((current) => current.map((a) => (a.id === asset.id ? { ...a, ...updated, flagged_for_cleanup: flagged } : a)));
+            toast.success(flagged ? 'Flagged for cleanup' : 'Flag removed');
+        } catch (error) {
+            console.error('Failed to update media', error);
+            toast.error('Failed to update asset');
+        }
+    };
+
+    const handleDelete = async (asset: MediaAsset) => {
+        const usage = getMediaUsageCount(asset);
+        const confirmed = await confirmAction({
+            title: `Delete ${asset.filename}?`,
+            description: 'The file is removed from storage. This cannot be undone.',
+            confirmLabel: 'Delete',
+            impact: {
+                items: usage > 0
+                    ? [`${describeMediaUsage(asset)}; those images will break`]
+                    : ['Not used anywhere'],
+            },
+            typeToConfirm: usage > 0 ? asset.filename : undefined,
+        });
+        if (!confirmed) return;
+        try {
+            await mediaService.delete(asset.id);
+            toast.success('Asset deleted');
+            setReloadKey((key) => key + 1);
+        } catch (error) {
+            console.error('Failed to delete media', error);
+            toast.error('Failed to delete asset');
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-800">Media Library</h1>
+                <p className="text-sm text-gray-500">Posters, actor photos and thumbnails uploaded from the edit screens.</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
+                <form onSubmit={handleSearch} className="flex flex-1 items-center gap-2">
+                    <div className="relative flex-1 max-w-sm">
+                        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+                        <Input
+                            name="search"
+                            placeholder="Search by file name..."
+                            className="pl-9"
+                            defaultValue={search}
+                        />
+                    </div>
+                    <Button type="submit" variant="secondary">Search</Button>
+                </form>
+                <div className="w-44">
+                    <Select
+                        options={kindOptions}
+                        value={kind ?? ''}
+                        onChange={(e) => setSearchParams(mergeSearchParams(searchParams, { page: 1, kind: e.target.value }))}
+                    />
+                </div>
+                <div className="w-52">
+                    <Select
+                        options={filterOptions}
+                        value={filter ?? ''}
+                        onChange={(e) => setSearchParams(mergeSearchParams(searchParams, { page: 1, filter: e.target.value }))}
+                    />
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+                    {Array.from({ length: 12 }).map((_, i) => <Skeleton key={i} className="aspect-[2/3] w-full" />)}
+                </div>
+            ) : assets.length === 0 ? (
+                <Card className="py-12 text-center text-sm text-gray-500">No media found.</Card>
+            ) : (
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+                    {assets.map((asset) => {
+                        const isUnused = getMediaUsageCount(asset) === 0;
+                        return (
+                            <Card key={asset.id} className={cn('flex flex-col', asset.flagged_for_cleanup && 'ring-2 ring-yellow-400')}>
+                                <AssetImage asset={asset} />
+                                <div className="flex flex-1 flex-col gap-1 p-3 text-xs">
+                                    <p className="truncate text-sm font-medium text-gray-900" title={asset.filename}>{asset.filename}</p>
+                                    <p className="text-gray-500">
+                                        {MEDIA_KIND_LABELS[asset.kind] ?? asset.kind}
+                                        {asset.width && asset.height && ` · ${asset.width}×${asset.height}`}
+                                        {` · ${formatFileSize(asset.size)}`}
+                                    </p>
+                                    <p className={cn(isUnused ? 'text-yellow-700' : 'text-gray-600')}>{describeMediaUsage(asset)}</p>
+                                    <p className="text-gray-400">{formatShortDate(asset.created_at)}</p>
+                                    <div className="mt-auto flex justify-end gap-1 pt-2">
+                                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Copy URL" onClick={() => handleCopy(asset)}>
+                                            <Copy className="h-4 w-4" />
+                                        </Button>
+                                        {(isUnused || asset.flagged_for_cleanup) && (
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                className="h-8 w-8"
+                                                title={asset.flagged_for_cleanup ? 'Remove cleanup flag' : 'Flag for cleanup'}
+                                                onClick={() => handleToggleFlag(asset)}
+                                            >
+                                                {asset.flagged_for_cleanup ? <FlagOff className="h-4 w-4" /> : <Flag className="h-4 w-4" />}
+                                            </Button>
+                                        )}
+                                        {isUnused && (
+                                            <Button size="icon" variant="ghost" className="h-8 w-8 text-red-600" title="Delete" onClick={() => handleDelete(asset)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            </Card>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+                <Button
+                    variant="outline"
+                    disabled={page <= 1}
+                    onClick={() => setSearchParams(mergeSearchParams(searchParams, { page: page - 1 }))}
+                >
+                    Previous
+                </Button>
+                <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+                <Button
+                    variant="outline"
+                    disabled={isLoading || page >= totalPages}
+                    onClick={() => setSearchParams(mergeSearchParams(searchParams, { page: page + 1 }))}
+                >
+                    Next
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,206 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Clapperboard, Film, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { releaseService } from '@/services/release';
+import type { ScheduledRelease } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader } from '@/components/ui/Card';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { usePermission } from '@/hooks/usePermission';
+import { cn } from '@/utils/cn';
+import { addDays, addMonths, startOfMonth, startOfWeek, toDateInput } from '@/utils/date';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatTime = (value: string) =>
+    new Date(value).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const releaseLabel = (release: ScheduledRelease) =>
+    release.type === 'episode'
+        ? `${release.drama_title} S${release.season_number}E${release.episode_number}`
+        : release.title;
+
+const releaseLink = (release: ScheduledRelease) =>
+    release.type === 'episode' ? `/dramas/${release.drama_id}/episodes` : `/dramas/${release.drama_id}/edit`;
+
+// Both targets are editor pages, so viewers without edit access get plain text
+const ReleaseLink = ({ release, canEdit, title, className, children }: {
+    release: ScheduledRelease;
+    canEdit: boolean;
+    title?: string;
+    className?: string;
+    children: ReactNode;
+}) =>
+    canEdit ? (
+        <Link to={releaseLink(release)} title={title} className={className}>{children}</Link>
+    ) : (
+        <span title={title} className={className}>{children}</span>
+    );
+
+export const ReleaseCalendar = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const canEditDramas = usePermission('dramas:edit');
+    // `month` is yyyy-mm; defaults to the current month
+    const monthParam = searchParams.get('month');
+    const month = monthParam && /^\d{4}-\d{2}$/.test(monthParam)
+        ? new Date(Number(monthParam.slice(0, 4)), Number(monthParam.slice(5, 7)) - 1, 1)
+        : startOfMonth(new Date());
+
+    const [releases, setReleases] = useState<ScheduledRelease[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Six full weeks always cover the month
+    const gridStart = startOfWeek(month);
+    const days = Array.from({ length: 42 }, (_, i) => addDays(gridStart, i));
+    const gridFrom = gridStart.toISOString();
+    const gridTo = addDays(gridStart, 42).toISOString();
+
+    useEffect(() => {
+        const fetchReleases = async () => {
+            setIsLoading(true);
+            try {
+                const data = await releaseService.getScheduled({ from: gridFrom, to: gridTo });
+                setReleases(data.sort((a, b) => a.publish_at.localeCompare(b.publish_at)));
+            } catch (error) {
+                console.error('Failed to fetch scheduled releases', error);
+                toast.error('Failed to load scheduled releases');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchReleases();
+    }, [gridFrom, gridTo]);
+
+    const goToMonth = (date: Date) => setSearchParams({ month: toDateInput(date).slice(0, 7) });
+
+    // Grouped by local calendar day
+    const releasesByDay = new Map<string, ScheduledRelease[]>();
+    releases.forEach((release) => {
+        const key = toDateInput(new Date(release.publish_at));
+        releasesByDay.set(key, [...(releasesByDay.get(key) || []), release]);
+    });
+
+    const today = toDateInput(new Date());
+    const upcoming = releases.filter((release) => new Date(release.publish_at) >= new Date());
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800">Release Calendar</h1>
+                    <p className="text-sm text-gray-500">
+                        Scheduled dramas and episodes, in your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone}).
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" onClick={() => goToMonth(addMonths(month, -1))} title="Previous month">
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="inline-flex min-w-[160px] items-center justify-center gap-2 font-medium text-gray-800">
+                        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                        {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                    </span>
+                    <Button variant="outline" size="icon" onClick={() => goToMonth(addMonths(month, 1))} title="Next month">
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" onClick={() => goToMonth(new Date())}>Today</Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardContent className="p-0">
+                    <div className="grid grid-cols-7 border-b border-gray-200 text-xs font-medium text-gray-500">
+                        {WEEKDAYS.map((day) => (
+                            <div key={day} className="px-2 py-2 text-center">{day}</div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-7">
+                        {days.map((day) => {
+                            const key = toDateInput(day);
+                            const dayReleases = releasesByDay.get(key) || [];
+                            const isCurrentMonth = day.getMonth() === month.getMonth();
+                            return (
+                                <div
+                                    key={key}
+                                    className={cn(
+                                        'min-h-[110px] border-b border-r border-gray-100 p-1.5',
+                                        !isCurrentMonth && 'bg-gray-50/60'
+                                    )}
+                                >
+                                    <div className={cn(
+                                        'mb-1 flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                                        key === today ? 'bg-primary-600 font-semibold text-white' : isCurrentMonth ? 'text-gray-700' : 'text-gray-400'
+                                    )}>
+                                        {day.getDate()}
+                                    </div>
+                                    {!isLoading && (
+                                        <ul className="space-y-1">
+                                            {dayReleases.map((release) => (
+                                                <li key={`${release.type}-${release.id}`}>
+                                                    <ReleaseLink
+                                                        release={release}
+                                                        canEdit={canEditDramas}
+                                                        title={`${releaseLabel(release)} · ${release.title}`}
+                                                        className={cn(
+                                                            'block truncate rounded px-1.5 py-0.5 text-xs',
+                                                            release.type === 'drama'
+                                                                ? 'bg-purple-50 text-purple-700'
+                                                                : 'bg-amber-50 text-amber-800',
+                                                            canEditDramas && (release.type === 'drama' ? 'hover:bg-purple-100' : 'hover:bg-amber-100')
+                                                        )}
+                                                    >
+                                                        <span className="font-medium">{formatTime(release.publish_at)}</span> {releaseLabel(release)}
+                                                    </ReleaseLink>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <h3 className="text-lg font-semibold text-gray-800">Upcoming</h3>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="space-y-3">
+                            {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+                        </div>
+                    ) : upcoming.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center">Nothing scheduled in this view.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {upcoming.map((release) => {
+                                const Icon = release.type === 'drama' ? Film : Clapperboard;
+                                return (
+                                    <li key={`${release.type}-${release.id}`} className="flex items-center gap-3 py-2">
+                                        <Icon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                                        <div className="min-w-0 flex-1">
+                                            <ReleaseLink
+                                                release={release}
+                                                canEdit={canEditDramas}
+                                                className={cn('block truncate text-sm font-medium text-gray-900', canEditDramas && 'hover:text-primary-600')}
+                                            >
+                                                {releaseLabel(release)}
+                                            </ReleaseLink>
+                                            {release.type === 'episode' && <p className="truncate text-xs text-gray-500">{release.title}</p>}
+                                        </div>
+                                        <span className="text-sm text-gray-500 whitespace-nowrap">
+                                            {new Date(release.publish_at).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
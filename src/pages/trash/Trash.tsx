@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { RotateCcw, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ColumnDef } from '@tanstack/react-table';
+import { trashService } from '@/services/trash';
+import type { TrashEntityType, TrashItem } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { DataTable } from '@/components/ui/DataTable';
+import { Input } from '@/components/ui/Input';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { usePermissions } from '@/hooks/usePermission';
+import { cn } from '@/utils/cn';
+import { getErrorMessage } from '@/utils/errors';
+import type { Permission } from '@/utils/permissions';
+import { mergeSearchParams, parsePageSize } from '@/utils/table';
+import { confirmAction } from '@/stores/confirmStore';
+
+const TYPE_LABELS: Record<TrashEntityType, string> = {
+    drama: 'Drama',
+    season: 'Season',
+    episode: 'Episode',
+    actor: 'Actor',
+    genre: 'Genre',
+};
+
+const TYPE_TABS: { value: TrashEntityType | ''; label: string }[] = [
+    { value: '', label: 'All' },
+    { value: 'drama', label: 'Dramas' },
+    { value: 'season', label: 'Seasons' },
+    { value: 'episode', label: 'Episodes' },
+    { value: 'actor', label: 'Actors' },
+    { value: 'genre', label: 'Genres' },
+];
+
+// Restoring needs the same permission as editing that kind of record
+const RESTORE_PERMISSIONS: Record<TrashEntityType, Permission> = {
+    drama: 'dramas:edit',
+    season: 'dramas:edit',
+    episode: 'dramas:edit',
+    actor: 'actors:manage',
+    genre: 'genres:manage',
+};
+
+const isTrashType = (value: string | null): value is TrashEntityType => !!value && value in TYPE_LABELS;
+
+const daysUntil = (value: string) => Math.max(0, Math.ceil((new Date(value).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+const describeChildren = (item: TrashItem) => {
+    if (!item.children_count) return null;
+    const noun = item.entity_type === 'drama' ? 'season' : 'episode';
+    return `with ${item.children_count} ${noun}${item.children_count === 1 ? '' : 's'}`;
+};
+
+export const Trash = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [pageCount, setPageCount] = useState(0);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [reloadKey, setReloadKey] = useState(0); // bumped after a restore or purge
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const can = usePermissions();
+
+    const page = Number(searchParams.get('page')) || 1;
+    const limit = parsePageSize(searchParams.get('limit'));
+    const search = searchParams.get('search') || '';
+    const typeParam = searchParams.get('type');
+    const type = isTrashType(typeParam) ? typeParam : undefined;
+
+    useEffect(() => {
+        const fetchTrash = async () => {
+            setIsLoading(true);
+            try {
+                const data = await trashService.getAll({ page, limit, search: search || undefined, type });
+                setItems(data.items || []);
+                setPageCount(data.total_pages || Math.ceil((data.total || 0) / limit));
+                setRetentionDays(data.retention_days ?? null);
+            } catch (error) {
+                console.error('Failed to fetch trash', error);
+                toast.error('Failed to load trash');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchTrash();
+    }, [page, limit, search, type, reloadKey]);
+
+    const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        setSearchParams(mergeSearchParams(searchParams, { page: 1, search: formData.get('search') as string }));
+    };
+
+    const handleRestore = async (item: TrashItem) => {
+        setBusyId(item.id);
+        try {
+            await trashService.restore(item.entity_type, item.id);
+            toast.success(`${TYPE_LABELS[item.entity_type]} "${item.label}" restored`);
+            setReloadKey((key) => key + 1);
+        } catch (error) {
+            console.error('Failed to restore item', error);
+            // e.g. an episode whose season is still in the trash
+            toast.error(getErrorMessage(error, 'Failed to restore'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async (item: TrashItem) => {
+        const children = describeChildren(item);
+        const confirmed = await confirmAction({
+            title: `Permanently delete "${item.label}"?`,
+            description: 'This cannot be undone.',
+            confirmLabel: 'Delete Permanently',
+            impact: children ? { items: [`Deletes it ${children}`] } : undefined,
+            typeToConfirm: item.label,
+        });
+        if (!confirmed) return;
+        setBusyId(item.id);
+        try {
+            await trashService.purge(item.entity_type, item.id);
+            toast.success('Permanently deleted');
+            setReloadKey((key) => key + 1);
+        } catch (error) {
+            console.error('Failed to purge item', error);
+            toast.error(getErrorMessage(error, 'Failed to delete permanently'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const columns: ColumnDef<TrashItem>[] = [
+        {
+            id: 'label',
+            header: 'Name',
+            enableHiding: false,
+            cell: ({ row }) => {
+                const item = row.original;
+                const children = describeChildren(item);
+                return (
+                    <div>
+                        <p className="font-medium">{item.label}</p>
+                        {(item.context || children) && (
+                            <p className="text-xs text-gray-500">{[item.context, children].filter(Boolean).join(' · ')}</p>
+                        )}
+                    </div>
+                );
+            },
+            meta: { skeleton: <Skeleton className="h-4 w-48" /> },
+        },
+        {
+            id: 'type',
+            header: 'Type',
+            cell: ({ row }) => TYPE_LABELS[row.original.entity_type] ?? row.original.entity_type,
+            meta: { skeleton: <Skeleton className="h-4 w-16" /> },
+        },
+        {
+            id: 'deleted_at',
+            header: 'Deleted',
+            cell: ({ row }) => (
+                <div className="text-gray-500">
+                    {new Date(row.original.deleted_at).toLocaleString()}
+                    {row.original.deleted_by && <p className="text-xs">by {row.original.deleted_by.name}</p>}
+                </div>
+            ),
+            meta: { skeleton: <Skeleton className="h-4 w-32" /> },
+        },
+        {
+            id: 'purge_at',
+            header: 'Purged In',
+            cell: ({ row }) => {
+                const days = daysUntil(row.original.purge_at);
+                return (
+                    <span className={cn('text-sm', days <= 3 ? 'font-medium text-red-600' : 'text-gray-600')}>
+                        {days === 0 ? 'Today' : `${days} ${days === 1 ? 'day' : 'days'}`}
+                    </span>
+                );
+            },
+            meta: { skeleton: <Skeleton className="h-4 w-16" /> },
+        },
+        {
+            id: 'actions',
+            header: 'Actions',
+            enableHiding: false,
+            cell: ({ row }) => {
+                const item = row.original;
+                return (
+                    <div className="flex justify-end gap-2">
+                        {can(RESTORE_PERMISSIONS[item.entity_type]) && (
+                            <Button size="sm" variant="outline" disabled={busyId === item.id} onClick={() => handleRestore(item)}>
+                                <RotateCcw className="h-4 w-4" />
+                                <span className="ml-2">Restore</span>
+                            </Button>
+                        )}
+                        {can('trash:purge') && (
+                            <Button size="sm" variant="danger" disabled={busyId === item.id} onClick={() => handlePurge(item)} title="Delete Forever">
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        )}
+                    </div>
+                );
+            },
+            meta: {
+                headerClassName: 'text-right',
+                cellClassName: 'text-right',
+                skeleton: <Skeleton className="h-8 w-28 ml-auto" />,
+            },
+        },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-800">Trash</h1>
+                <p className="text-sm text-gray-500">
+                    Deleted dramas, seasons, episodes, actors and genres
+                    {retentionDays !== null && `, kept for ${retentionDays} days before they are removed for good`}.
+                </p>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
+                <div className="flex flex-wrap gap-2">
+                    {TYPE_TABS.map((tab) => (
+                        <Button
+                            key={tab.value || 'all'}
+                            size="sm"
+                            variant={(type ?? '') === tab.value ? 'primary' : 'outline'}
+                            onClick={() => setSearchParams(mergeSearchParams(searchParams, { page: 1, type: tab.value }))}
+                        >
+                            {tab.label}
+                        </Button>
+                    ))}
+                </div>
+                <form onSubmit={handleSearch} className="flex items-center gap-2">
+                    <div className="relative w-64">
+                        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+                        <Input
+                            name="search"
+                            placeholder="Search trash..."
+                            className="pl-9"
+                            defaultValue={search}
+                        />
+                    </div>
+                    <Button type="submit" variant="secondary">Search</Button>
+                </form>
+            </div>
+
+            <DataTable
+                tableId="trash"
+                columns={columns}
+                data={items}
+                getRowId={(item) => `${item.entity_type}:${item.id}`}
+                isLoading={isLoading}
+                emptyMessage="Trash is empty."
+                pagination={{
+                    page,
+                    pageSize: limit,
+                    pageCount,
+                    onPageChange: (next) => setSearchParams(mergeSearchParams(searchParams, { page: next })),
+                    onPageSizeChange: (size) => setSearchParams(mergeSearchParams(searchParams, { page: 1, limit: size })),
+                }}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Clock, Heart, PlayCircle, ScrollText, ShieldBan, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { userService } from '@/services/user';
+import type { BanRecord, FavoriteItem, User, UserActivity, WatchHistoryItem } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader } from '@/components/ui/Card';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
+import { BanUserDialog } from '@/components/users/BanUserDialog';
+import { BanHistoryList } from '@/components/users/BanHistoryList';
+import { UserStatusBadge } from '@/components/users/UserStatusBadge';
+import { usePermission } from '@/hooks/usePermission';
+import { getRoleLabel, isStaffRole } from '@/utils/permissions';
+import { formatDuration } from '@/utils/date';
+
+const HISTORY_LIMIT = 10;
+
+const LoadError = ({ children, onRetry }: { children: string; onRetry: () => void }) => (
+    <p className="flex items-center justify-center gap-2 text-sm text-red-600">
+        <AlertCircle className="h-4 w-4" />
+        {children}
+        <button type="button" className="font-medium underline hover:text-red-700" onClick={onRetry}>Retry</button>
+    </p>
+);
+
+export const UserDetail = () => {
+    const { id } = useParams();
+    const navigate = useNavigate();
+    const canBan = usePermission('users:ban');
+    const canViewAudit = usePermission('audit:view');
+
+    const [user, setUser] = useState<User | null>(null);
+    const [activity, setActivity] = useState<UserActivity | null>(null);
+    // null when that part failed to load; only the user record itself is required
+    const [favorites, setFavorites] = useState<FavoriteItem[] | null>(null);
+    const [banHistory, setBanHistory] = useState<BanRecord[] | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBanDialogOpen, setIsBanDialogOpen] = useState(false);
+
+    const [history, setHistory] = useState<WatchHistoryItem[]>([]);
+    const [historyPage, setHistoryPage] = useState(1);
+    const [historyTotalPages, setHistoryTotalPages] = useState(1);
+    const [isHistoryLoading, setIsHistoryLoading] = useState(true);
+    const [historyError, setHistoryError] = useState(false);
+    const [historyReloadKey, setHistoryReloadKey] = useState(0);
+
+    const fetchUser = useCallback(async () => {
+        if (!id) return;
+        setIsLoading(true);
+        try {
+            // Each card shows its own error, so one failing endpoint does not hide the whole page
+            const [userResult, activityResult, favoritesResult, bansResult] = await Promise.allSettled([
+                userService.getById(id),
+                userService.getActivity(id),
+                userService.getFavorites(id),
+                userService.getBanHistory(id),
+            ]);
+            if (userResult.status === 'rejected') throw userResult.reason;
+            [activityResult, favoritesResult, bansResult].forEach((result) => {
+                if (result.status === 'rejected') console.error('Failed to load user details', result.reason);
+            });
+            setUser(userResult.value);
+            setActivity(activityResult.status === 'fulfilled' ? activityResult.value : null);
+            setFavorites(favoritesResult.status === 'fulfilled' ? favoritesResult.value : null);
+            setBanHistory(bansResult.status === 'fulfilled' ? bansResult.value : null);
+        } catch (error) {
+            console.error('Failed to load user', error);
+            toast.error('Failed to load user');
+            navigate('/users');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [id, navigate]);
+
+    useEffect(() => {
+        fetchUser();
+    }, [fetchUser]);
+
+    useEffect(() => {
+        if (!id) return;
+        const fetchHistory = async () => {
+            setIsHistoryLoading(true);
+            setHistoryError(false);
+            try {
+                const data = await userService.getWatchHistory(id, { page: historyPage, limit: HISTORY_LIMIT });
+                setHistory(data.items || []);
+                setHistoryTotalPages(data.total_pages || 1);
+            } catch (error) {
+                console.error('Failed to fetch watch history', error);
+                setHistoryError(true);
+            } finally {
+                setIsHistoryLoading(false);
+            }
+        };
+        fetchHistory();
+    }, [id, historyPage, historyReloadKey]);
+
+    const handleUnban = async () => {
+        if (!user) return;
+        try {
+            await userService.unban(user.id);
+            toast.success(`${user.name} has been unbanned`);
+            fetchUser();
+        } catch (error) {
+            console.error('Failed to unban user', error);
+            toast.error('Failed to unban user');
+        }
+    };
+
+    if (isLoading || !user) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-8 w-48" />
+                <Card>
+                    <CardContent className="flex items-center gap-6">
+                        <Skeleton className="h-20 w-20 rounded-full" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-6 w-48" />
+                            <Skeleton className="h-4 w-64" />
+                            <Skeleton className="h-4 w-32" />
+                        </div>
+                    </CardContent>
+                </Card>
+                <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                        <Skeleton key={i} className="h-24 w-full rounded-xl" />
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    const activityCards = [
+        { title: 'Total Watch Time', value: activity ? formatDuration(activity.total_watch_time || 0) : '—', icon: Clock, color: 'text-blue-600', bg: 'bg-blue-50' },
+        { title: 'Episodes Watched', value: activity ? activity.episodes_watched || 0 : '—', icon: PlayCircle, color: 'text-green-600', bg: 'bg-green-50' },
+        { title: 'Favorites', value: activity?.favorites_count ?? favorites?.length ?? '—', icon: Heart, color: 'text-pink-600', bg: 'bg-pink-50' },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-4">
+                <Link to="/users">
+                    <Button variant="ghost" size="sm">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        Back to Users
+                    </Button>
+                </Link>
+                <h1 className="text-2xl font-bold text-gray-800">User Details</h1>
+                {canViewAudit && (
+                    <div className="ml-auto flex gap-2">
+                        {isStaffRole(user.role) && (
+                            <Link to={`/audit?actor_id=${user.id}`}>
+                                <Button variant="outline" size="sm">Admin Actions</Button>
+                            </Link>
+                        )}
+                        <Link to={`/audit?entity_type=user&entity_id=${user.id}`}>
+                            <Button variant="outline" size="sm">
+                                <ScrollText className="h-4 w-4 mr-2" />
+                                Audit Log
+                            </Button>
+                        </Link>
+                    </div>
+                )}
+            </div>
+
+            <Card>
+                <CardContent className="flex flex-wrap items-center justify-between gap-6">
+                    <div className="flex items-center gap-6">
+                        {user.avatar_url ? (
+                            <img src={user.avatar_url} alt={user.name} className="h-20 w-20 rounded-full object-cover" />
+                        ) : (
+                            <div className="h-20 w-20 rounded-full bg-primary-100 flex items-center justify-center text-primary-700 text-2xl font-bold">
+                                {user.name.charAt(0).toUpperCase()}
+                            </div>
+                        )}
+                        <div className="space-y-1">
+                            <h2 className="text-xl font-semibold text-gray-900">{user.name}</h2>
+                            <p className="text-sm text-gray-500">{user.email}</p>
+                            <div className="flex flex-wrap items-center gap-2 pt-1">
+                                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                                    {getRoleLabel(user.role)}
+                                </span>
+                                <UserStatusBadge user={user} />
+                            </div>
+                            <p className="text-xs text-gray-500 pt-1">
+                                {user.created_at && <>Joined {new Date(user.created_at).toLocaleDateString()}</>}
+                                {activity?.last_active_at && <> · Last active {new Date(activity.last_active_at).toLocaleString()}</>}
+                            </p>
+                            {user.is_banned && user.ban_reason && (
+                                <p className="text-sm text-red-600">Ban reason: {user.ban_reason}</p>
+                            )}
+                        </div>
+                    </div>
+                    {canBan && !isStaffRole(user.role) && (
+                        user.is_banned ? (
+                            <Button variant="outline" onClick={handleUnban}>
+                                <ShieldCheck className="h-4 w-4 mr-2" />
+                                Unban
+                            </Button>
+                        ) : (
+                            <Button variant="danger" onClick={() => setIsBanDialogOpen(true)}>
+                                <ShieldBan className="h-4 w-4 mr-2" />
+                                Ban
+                            </Button>
+                        )
+                    )}
+                </CardContent>
+            </Card>
+
+            {!activity && <LoadError onRetry={fetchUser}>Could not load this user's activity.</LoadError>}
+
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                {activityCards.map((card) => (
+                    <Card key={card.title}>
+                        <CardContent className="flex items-center gap-4 p-6">
+                            <div className={`rounded-xl p-3 ${card.bg}`}>
+                                <card.icon className={`h-6 w-6 ${card.color}`} />
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-gray-500">{card.title}</p>
+                                <h3 className="text-2xl font-bold text-gray-900">{card.value}</h3>
+                            </div>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-3">
+                <Card className="xl:col-span-2">
+                    <CardHeader>
+                        <h3 className="text-lg font-semibold text-gray-800">Recent Watch History</h3>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Episode</TableHead>
+                                    <TableHead>Progress</TableHead>
+                                    <TableHead>Watched</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {isHistoryLoading ? (
+                                    Array.from({ length: 5 }).map((_, i) => (
+                                        <TableRow key={i}>
+                                            <TableCell><Skeleton className="h-4 w-48" /></TableCell>
+                                            <TableCell><Skeleton className="h-2 w-24" /></TableCell>
+                                            <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                                        </TableRow>
+                                    ))
+                                ) : historyError ? (
+                                    <TableRow>
+                                        <TableCell colSpan={3} className="py-8">
+                                            <LoadError onRetry={() => setHistoryReloadKey((key) => key + 1)}>Could not load watch history.</LoadError>
+                                        </TableCell>
+                                    </TableRow>
+                                ) : history.length === 0 ? (
+                                    <TableRow><TableCell colSpan={3} className="text-center py-8 text-gray-500">No watch history yet.</TableCell></TableRow>
+                                ) : (
+                                    history.map((item) => (
+                                        <TableRow key={item.id}>
+                                            <TableCell>
+                                                <div className="font-medium">{item.episode_title}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {item.drama_title} · S{item.season_number} E{item.episode_number}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex items-center gap-2">
+                                                    <div className="h-2 w-24 rounded-full bg-gray-100 overflow-hidden">
+                                                        <div
+                                                            className="h-full bg-primary-500"
+                                                            style={{ width: `${item.duration ? Math.min(100, (item.progress / item.duration) * 100) : 0}%` }}
+                                                        />
+                                                    </div>
+                                                    <span className="text-xs text-gray-500">{formatDuration(item.progress)}</span>
+                                                </div>
+                                            </TableCell>
+                                            <TableCell className="text-sm text-gray-500">{new Date(item.watched_at).toLocaleString()}</TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                        <div className="flex items-center justify-end gap-2 p-4 border-t border-gray-100">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={historyPage <= 1}
+                                onClick={() => setHistoryPage((p) => p - 1)}
+                            >
+                                Previous
+                            </Button>
+                            <span className="text-sm text-gray-600">Page {historyPage} of {historyTotalPages}</span>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={historyPage >= historyTotalPages}
+                                onClick={() => setHistoryPage((p) => p + 1)}
+                            >
+                                Next
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <h3 className="text-lg font-semibold text-gray-800">Favorites</h3>
+                        </CardHeader>
+                        <CardContent>
+                            {!favorites ? (
+                                <LoadError onRetry={fetchUser}>Could not load favorites.</LoadError>
+                            ) : favorites.length === 0 ? (
+                                <p className="text-sm text-gray-500 text-center">No favorites yet.</p>
+                            ) : (
+                                <ul className="space-y-3">
+                                    {favorites.map((favorite) => (
+                                        <li key={favorite.drama_id} className="flex items-center gap-3">
+                                            <img
+                                                src={favorite.poster_url}
+                                                alt={favorite.title}
+                                                className="h-12 w-9 rounded object-cover bg-gray-100"
+                                                onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/36x48?text=No+Img' }}
+                                            />
+                                            <div>
+                                                <p className="text-sm font-medium text-gray-900">{favorite.title}</p>
+                                                <p className="text-xs text-gray-500">Added {new Date(favorite.added_at).toLocaleDateString()}</p>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <h3 className="text-lg font-semibold text-gray-800">Ban History</h3>
+                        </CardHeader>
+                        <CardContent>
+                            {banHistory ? <BanHistoryList records={banHistory} /> : <LoadError onRetry={fetchUser}>Could not load ban history.</LoadError>}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+
+            <BanUserDialog
+                user={isBanDialogOpen ? user : null}
+                onOpenChange={setIsBanDialogOpen}
+                onBanned={() => fetchUser()}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { publishFields, refinePublishSchedule } from './publish';
+
+export const dramaSchema = z.object({
+    title: z.string().min(1, 'Title is required'),
+    synopsis: z.string().min(10, 'Synopsis must be at least 10 characters'),
+    poster_url: z.string().url('Invalid URL format').optional().or(z.literal('')),
+    year: z.coerce.number().min(1900).max(new Date().getFullYear() + 5),
+    total_seasons: z.coerce.number().min(1),
+    status: z.enum(['ongoing', 'completed']),
+    genre_ids: z.array(z.string()).min(1, 'Select at least one genre'),
+    // Actors are handled separately via state to manage roles easily, or can be field array
+    ...publishFields,
+}).superRefine(refinePublishSchedule);
+
+export type DramaFormData = z.infer<typeof dramaSchema>;
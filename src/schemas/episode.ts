@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { publishFields, refinePublishSchedule } from './publish';
+import { ALLOWED_VIDEO_HOSTS, isAllowedVideoUrl } from '../utils/video';
+
+export const episodeSchema = z.object({
+    title: z.string().min(1, 'Title is required'),
+    episode_number: z.coerce.number().min(1),
+    duration: z.coerce.number().min(1), // minutes; the API stores seconds
+    video_url: z.string().url('Invalid URL'), // host checked on submit, see validateVideoHost
+    thumbnail_url: z.string().url('Invalid URL').optional().or(z.literal('')),
+    ...publishFields,
+}).superRefine(refinePublishSchedule);
+
+export type EpisodeFormData = z.infer<typeof episodeSchema>;
+
+// The host allowlist only applies to links being set now, so episodes stored with an older
+// link stay editable. Returns the error message, if any.
+export const validateVideoHost = (videoUrl: string, storedUrl?: string) =>
+    videoUrl === storedUrl || isAllowedVideoUrl(videoUrl)
+        ? undefined
+        : `Use an https link from a supported host (${ALLOWED_VIDEO_HOSTS.join(', ')})`;
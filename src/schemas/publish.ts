@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { parseDateTimeInput, toDateTimeInput } from '../utils/date';
+
+export const publishFields = {
+    publish_state: z.enum(['draft', 'scheduled', 'published']),
+    publish_at: z.string().optional(), // datetime-local value, only used when scheduled
+};
+
+// The datetime-local format, which is also what imports must use. The round trip
+// rejects dates that parse but roll over, e.g. 2025-02-30.
+const isDateTimeInput = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value) && toDateTimeInput(parseDateTimeInput(value)) === value;
+
+type PublishFields = { publish_state: 'draft' | 'scheduled' | 'published'; publish_at?: string };
+
+export const refinePublishSchedule = (data: PublishFields, ctx: z.RefinementCtx) => {
+    if (data.publish_state !== 'scheduled') return;
+    if (!data.publish_at) {
+        ctx.addIssue({ code: 'custom', path: ['publish_at'], message: 'Pick a release date and time' });
+    } else if (!isDateTimeInput(data.publish_at)) {
+        // Imports can carry free text, which would otherwise fail later when building the payload
+        ctx.addIssue({ code: 'custom', path: ['publish_at'], message: 'Use a valid local date and time as YYYY-MM-DDTHH:mm' });
+    } else if (parseDateTimeInput(data.publish_at) <= new Date()) {
+        ctx.addIssue({ code: 'custom', path: ['publish_at'], message: 'Release time must be in the future' });
+    }
+};
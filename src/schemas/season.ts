@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const seasonSchema = z.object({
+    season_number: z.coerce.number().int().min(1),
+    title: z.string().min(1, 'Title is required'),
+    synopsis: z.string().optional(),
+    poster_url: z.string().url('Invalid URL format').optional().or(z.literal('')),
+    release_date: z.string().optional(), // yyyy-mm-dd from a date input
+});
+
+export type SeasonFormData = z.infer<typeof seasonSchema>;
@@ -1,9 +1,25 @@
 import api from './api';
-import type { ApiResponse, DashboardStats } from '../types';
+import type { ApiResponse, DashboardStats, LeaderboardWindow, TimeSeriesInterval, TimeSeriesPoint, TopDrama, TopEpisode } from '../types';
 
 export const analyticsService = {
-    getDashboardStats: async (): Promise<DashboardStats> => {
-        const response = await api.get<ApiResponse<DashboardStats>>('/analytics/dashboard');
+    // When a range is given, the new_*_count fields are counted within it
+    getDashboardStats: async (params?: { from?: string; to?: string }): Promise<DashboardStats> => {
+        const response = await api.get<ApiResponse<DashboardStats>>('/analytics/dashboard', { params });
         return response.data.data;
     },
+
+    getTimeSeries: async (params: { from: string; to: string; interval: TimeSeriesInterval }): Promise<TimeSeriesPoint[]> => {
+        const response = await api.get<ApiResponse<TimeSeriesPoint[]>>('/analytics/timeseries', { params });
+        return response.data.data || [];
+    },
+
+    getTopDramas: async (params: { window: LeaderboardWindow; limit?: number }): Promise<TopDrama[]> => {
+        const response = await api.get<ApiResponse<TopDrama[]>>('/analytics/top-dramas', { params });
+        return response.data.data || [];
+    },
+
+    getTopEpisodes: async (params: { window: LeaderboardWindow; limit?: number }): Promise<TopEpisode[]> => {
+        const response = await api.get<ApiResponse<TopEpisode[]>>('/analytics/top-episodes', { params });
+        return response.data.data || [];
+    },
 };
@@ -1,5 +1,6 @@
-import axios from 'axios';
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios';
 import { useAuthStore } from '../stores/authStore';
+import type { ApiResponse, RefreshTokenResponse } from '../types';
 
 // Get base URL from env or default
 const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080/api';
@@ -11,6 +12,39 @@ const api = axios.create({
     },
 });
 
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+    _retry?: boolean;
+}
+
+// Requests that must never trigger a refresh (they are the auth flow itself)
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh'];
+
+let refreshPromise: Promise<string> | null = null;
+
+// Refresh the access token. Concurrent callers share one in-flight request,
+// so a burst of 401s results in a single refresh and every request waits on it.
+export const refreshSession = (): Promise<string> => {
+    if (!refreshPromise) {
+        refreshPromise = (async () => {
+            const { refreshToken, setTokens } = useAuthStore.getState();
+            if (!refreshToken) {
+                throw new Error('No refresh token available');
+            }
+
+            // Plain axios so this call bypasses the interceptors below
+            const response = await axios.post<ApiResponse<RefreshTokenResponse>>(`${BASE_URL}/auth/refresh`, {
+                refresh_token: refreshToken,
+            });
+            const { token, refresh_token } = response.data.data;
+            setTokens(token, refresh_token);
+            return token;
+        })().finally(() => {
+            refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+};
+
 // Request Interceptor: Attach Token
 api.interceptors.request.use(
     (config) => {
@@ -23,14 +57,32 @@ api.interceptors.request.use(
     (error) => Promise.reject(error)
 );
 
-// Response Interceptor: Handle 401
+// Response Interceptor: Refresh once on 401 and retry, log out only if that fails
 api.interceptors.response.use(
     (response) => response,
-    (error) => {
-        if (error.response?.status === 401) {
+    async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+        const isAuthRequest = AUTH_ENDPOINTS.some((endpoint) => originalRequest?.url?.startsWith(endpoint));
+
+        if (error.response?.status !== 401 || !originalRequest || isAuthRequest) {
+            return Promise.reject(error);
+        }
+
+        if (originalRequest._retry) {
+            // The refreshed token was rejected as well
+            useAuthStore.getState().logout();
+            return Promise.reject(error);
+        }
+
+        originalRequest._retry = true;
+        try {
+            const token = await refreshSession();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return api(originalRequest);
+        } catch (refreshError) {
             useAuthStore.getState().logout();
+            return Promise.reject(refreshError);
         }
-        return Promise.reject(error);
     }
 );
 
@@ -0,0 +1,21 @@
+import api from './api';
+import type { ApiResponse, AuditEntityType, AuditLogEntry, User } from '../types';
+
+export interface AuditLogFilters {
+    actor_id?: string;
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+}
+
+export const auditService = {
+    getAll: async (params?: AuditLogFilters & { page?: number; limit?: number }) => {
+        const response = await api.get<ApiResponse<{ items: AuditLogEntry[]; total: number; page: number; total_pages: number }>>('/audit-logs', { params });
+        return response.data.data;
+    },
+
+    // Staff who appear in the log, for the admin filter
+    getActors: async () => {
+        const response = await api.get<ApiResponse<Pick<User, 'id' | 'name' | 'email'>[]>>('/audit-logs/actors');
+        return response.data.data || [];
+    },
+};
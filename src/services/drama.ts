@@ -1,8 +1,8 @@
 import api from './api';
-import type { ApiResponse, Drama } from '../types';
+import type { ApiResponse, Drama, DramaInput, DramaRevision } from '../types';
 
 export const dramaService = {
-    getAll: async (params?: { page?: number; limit?: number; search?: string; status?: string; genre?: string; sort?: string }) => {
+    getAll: async (params?: { page?: number; limit?: number; search?: string; status?: string; genre?: string; actor?: string; sort?: string }) => {
         const queryParams = {
             ...params,
             q: params?.search, // Backend expects 'q' for search
@@ -16,18 +16,52 @@ export const dramaService = {
         return response.data.data;
     },
 
-    create: async (data: Partial<Drama>) => {
+    create: async (data: DramaInput) => {
         const response = await api.post<ApiResponse<Drama>>('/dramas', data);
         return response.data.data;
     },
 
-    update: async (id: string, data: Partial<Drama>) => {
+    update: async (id: string, data: DramaInput) => {
         const response = await api.put<ApiResponse<Drama>>(`/dramas/${id}`, data);
         return response.data.data;
     },
 
+    // PUT replaces the whole drama, so merge the changes into the current record first
+    updateFields: async (id: string, changes: DramaInput | ((drama: Drama) => DramaInput)) => {
+        const current = await dramaService.getById(id);
+        const patch = typeof changes === 'function' ? changes(current) : changes;
+        return dramaService.update(id, { ...toDramaInput(current), ...patch });
+    },
+
+    // Soft delete: the drama and its seasons move to the trash (see trashService)
     delete: async (id: string) => {
         const response = await api.delete<ApiResponse<null>>(`/dramas/${id}`);
         return response.data;
     },
+
+    // Newest first
+    getRevisions: async (id: string) => {
+        const response = await api.get<ApiResponse<DramaRevision[]>>(`/dramas/${id}/revisions`);
+        return response.data.data || [];
+    },
+
+    // Saves the revision's fields as the current drama, which itself becomes a new revision
+    restoreRevision: async (id: string, revisionId: string) => {
+        const response = await api.post<ApiResponse<Drama>>(`/dramas/${id}/revisions/${revisionId}/restore`);
+        return response.data.data;
+    },
 };
+
+export const toDramaInput = (drama: Drama): DramaInput => ({
+    title: drama.title,
+    synopsis: drama.synopsis,
+    poster_url: drama.poster_url || undefined,
+    year: drama.year,
+    total_seasons: drama.total_seasons,
+    status: drama.status,
+    genre_ids: drama.genres?.map((genre) => genre.id) || [],
+    actors: drama.actors?.map((cast) => ({ actor_id: cast.actor.id, role: cast.role })) || [],
+    // Left out, a full-replace PUT would publish drafts and drop schedules
+    publish_state: drama.publish_state,
+    publish_at: drama.publish_at ?? null,
+});
@@ -21,6 +21,12 @@ export const episodeService = {
         const response = await api.delete<ApiResponse<null>>(`/episodes/${id}`);
         return response.data;
     },
+
+    // Persist a whole season's numbering at once so it is never left half renumbered
+    reorder: async (seasonId: string, order: { id: string; episode_number: number }[]) => {
+        const response = await api.put<ApiResponse<Episode[]>>(`/seasons/${seasonId}/episodes/order`, { episodes: order });
+        return response.data.data;
+    },
 };
 
 export const seasonService = {
@@ -39,8 +45,14 @@ export const seasonService = {
         return response.data.data;
     },
 
+    // Soft delete: the season and its episodes move to the trash (see trashService)
     delete: async (id: string) => {
         const response = await api.delete<ApiResponse<null>>(`/seasons/${id}`);
         return response.data;
     },
+
+    reorder: async (dramaId: string, order: { id: string; season_number: number }[]) => {
+        const response = await api.put<ApiResponse<Season[]>>(`/dramas/${dramaId}/seasons/order`, { seasons: order });
+        return response.data.data;
+    },
 };
@@ -22,6 +22,12 @@ export const genreService = {
         return response.data.data;
     },
 
+    // Positions are saved for every genre at once, in rail order
+    reorder: async (order: { id: string; position: number }[]) => {
+        const response = await api.put<ApiResponse<Genre[]>>('/genres/order', { genres: order });
+        return response.data.data;
+    },
+
     delete: async (id: string) => {
         const response = await api.delete<ApiResponse<null>>(`/genres/${id}`);
         return response.data;
@@ -0,0 +1,10 @@
+import api from './api';
+import type { ApiResponse, LinkCheckResult } from '../types';
+
+export const linkService = {
+    // Requested from the server, which can follow redirects and read statuses cross-origin
+    check: async (urls: string[]): Promise<LinkCheckResult[]> => {
+        const response = await api.post<ApiResponse<LinkCheckResult[]>>('/links/check', { urls });
+        return response.data.data || [];
+    },
+};
@@ -0,0 +1,37 @@
+import api from './api';
+import type { ApiResponse, MediaAsset, MediaKind } from '../types';
+
+// `unused` are assets no record points at; `flagged` are those marked for cleanup
+export type MediaFilter = 'unused' | 'flagged';
+
+export const mediaService = {
+    getAll: async (params?: { page?: number; limit?: number; search?: string; kind?: MediaKind; filter?: MediaFilter }) => {
+        const response = await api.get<ApiResponse<{ items: MediaAsset[]; total: number; page: number; total_pages: number }>>('/media', { params });
+        return response.data.data;
+    },
+
+    // `onProgress` gets 0-100 as the request body is sent
+    upload: async (file: Blob, { filename, kind }: { filename: string; kind: MediaKind }, onProgress?: (percent: number) => void) => {
+        const formData = new FormData();
+        formData.append('file', file, filename);
+        formData.append('kind', kind);
+        const response = await api.post<ApiResponse<MediaAsset>>('/media', formData, {
+            // The shared instance defaults to JSON, which would make axios serialize the FormData
+            headers: { 'Content-Type': 'multipart/form-data' },
+            onUploadProgress: (event) => {
+                if (event.total) onProgress?.(Math.round((event.loaded / event.total) * 100));
+            },
+        });
+        return response.data.data;
+    },
+
+    setCleanupFlag: async (id: string, flagged: boolean) => {
+        const response = await api.patch<ApiResponse<MediaAsset>>(`/media/${id}`, { flagged_for_cleanup: flagged });
+        return response.data.data;
+    },
+
+    delete: async (id: string) => {
+        const response = await api.delete<ApiResponse<null>>(`/media/${id}`);
+        return response.data;
+    },
+};
@@ -0,0 +1,10 @@
+import api from './api';
+import type { ApiResponse, ScheduledRelease } from '../types';
+
+export const releaseService = {
+    // Scheduled dramas and episodes going live between `from` and `to` (ISO timestamps)
+    getScheduled: async (params: { from: string; to: string }): Promise<ScheduledRelease[]> => {
+        const response = await api.get<ApiResponse<ScheduledRelease[]>>('/releases/scheduled', { params });
+        return response.data.data || [];
+    },
+};
@@ -0,0 +1,20 @@
+import api from './api';
+import type { ApiResponse, TrashEntityType, TrashItem } from '../types';
+
+// Deletes elsewhere only move records here; they are purged automatically after `retention_days`
+export const trashService = {
+    getAll: async (params?: { page?: number; limit?: number; search?: string; type?: TrashEntityType }) => {
+        const response = await api.get<ApiResponse<{ items: TrashItem[]; total: number; page: number; total_pages: number; retention_days: number }>>('/trash', { params });
+        return response.data.data;
+    },
+
+    restore: async (type: TrashEntityType, id: string) => {
+        const response = await api.post<ApiResponse<null>>(`/trash/${type}/${id}/restore`);
+        return response.data;
+    },
+
+    purge: async (type: TrashEntityType, id: string) => {
+        const response = await api.delete<ApiResponse<null>>(`/trash/${type}/${id}`);
+        return response.data;
+    },
+};
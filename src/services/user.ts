@@ -1,17 +1,53 @@
 import api from './api';
-import type { ApiResponse, User } from '../types';
+import type { ApiResponse, BanRecord, FavoriteItem, User, UserActivity, WatchHistoryItem } from '../types';
+import type { Role } from '../utils/permissions';
 
 export const userService = {
-    getAll: async (params?: { page?: number; limit?: number; search?: string }) => {
+    getAll: async (params?: { page?: number; limit?: number; search?: string; status?: 'active' | 'banned'; sort?: string }) => {
         const response = await api.get<ApiResponse<{ items: User[]; total: number; page: number; total_pages: number }>>('/analytics/users', { params });
         return response.data.data;
     },
 
-    updateRole: async (id: string, role: 'admin' | 'user') => {
+    getById: async (id: string) => {
+        const response = await api.get<ApiResponse<User>>(`/analytics/users/${id}`);
+        return response.data.data;
+    },
+
+    getActivity: async (id: string) => {
+        const response = await api.get<ApiResponse<UserActivity>>(`/analytics/users/${id}/activity`);
+        return response.data.data;
+    },
+
+    getWatchHistory: async (id: string, params?: { page?: number; limit?: number }) => {
+        const response = await api.get<ApiResponse<{ items: WatchHistoryItem[]; total: number; page: number; total_pages: number }>>(`/analytics/users/${id}/history`, { params });
+        return response.data.data;
+    },
+
+    getFavorites: async (id: string) => {
+        const response = await api.get<ApiResponse<FavoriteItem[]>>(`/analytics/users/${id}/favorites`);
+        return response.data.data || [];
+    },
+
+    updateRole: async (id: string, role: Role) => {
         const response = await api.patch<ApiResponse<User>>(`/analytics/users/${id}/role`, { role });
         return response.data.data;
     },
 
+    ban: async (id: string, data: { reason: string; expires_at?: string | null }) => {
+        const response = await api.post<ApiResponse<User>>(`/analytics/users/${id}/ban`, data);
+        return response.data.data;
+    },
+
+    unban: async (id: string, reason?: string) => {
+        const response = await api.post<ApiResponse<User>>(`/analytics/users/${id}/unban`, { reason });
+        return response.data.data;
+    },
+
+    getBanHistory: async (id: string) => {
+        const response = await api.get<ApiResponse<BanRecord[]>>(`/analytics/users/${id}/bans`);
+        return response.data.data || [];
+    },
+
     deleteUser: async (id: string) => {
         const response = await api.delete<ApiResponse<null>>(`/analytics/users/${id}`);
         return response.data;
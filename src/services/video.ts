@@ -0,0 +1,10 @@
+import api from './api';
+import type { ApiResponse, EmbedCheckResult } from '../types';
+
+export const videoService = {
+    // Browsers cannot read frame headers cross-origin, so the server does the check
+    checkEmbed: async (url: string): Promise<EmbedCheckResult> => {
+        const response = await api.post<ApiResponse<EmbedCheckResult>>('/videos/embed-check', { url });
+        return response.data.data;
+    },
+};
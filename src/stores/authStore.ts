@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { getTokenExpiry } from '../utils/jwt';
 
 interface User {
     id: string;
@@ -12,8 +13,11 @@ interface User {
 interface AuthState {
     user: User | null;
     token: string | null;
+    refreshToken: string | null;
+    expiresAt: number | null; // access token expiry, ms since epoch
     isAuthenticated: boolean;
-    login: (user: User, token: string) => void;
+    login: (user: User, token: string, refreshToken?: string) => void;
+    setTokens: (token: string, refreshToken?: string) => void;
     logout: () => void;
 }
 
@@ -22,9 +26,23 @@ export const useAuthStore = create<AuthState>()(
         (set) => ({
             user: null,
             token: null,
+            refreshToken: null,
+            expiresAt: null,
             isAuthenticated: false,
-            login: (user, token) => set({ user, token, isAuthenticated: true }),
-            logout: () => set({ user: null, token: null, isAuthenticated: false }),
+            login: (user, token, refreshToken) => set({
+                user,
+                token,
+                refreshToken: refreshToken ?? null,
+                expiresAt: getTokenExpiry(token),
+                isAuthenticated: true,
+            }),
+            // Keep the current refresh token when the server does not rotate it
+            setTokens: (token, refreshToken) => set((state) => ({
+                token,
+                refreshToken: refreshToken ?? state.refreshToken,
+                expiresAt: getTokenExpiry(token),
+            })),
+            logout: () => set({ user: null, token: null, refreshToken: null, expiresAt: null, isAuthenticated: false }),
         }),
         {
             name: 'auth-storage',
@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+
+export interface ConfirmImpact {
+    items: string[]; // consequences, e.g. "Used by 42 dramas"
+    // Ask for typed confirmation only when the loaded impact turns out to be high
+    typeToConfirm?: string;
+}
+
+export interface ConfirmOptions {
+    title: string;
+    description?: string;
+    // Static, or loaded when the dialog opens (counts that need an API call)
+    impact?: ConfirmImpact | (() => Promise<ConfirmImpact>);
+    // Typed confirmation to require when the impact fails to load, so an unknown impact is treated as high
+    errorTypeToConfirm?: string;
+    // The confirm button stays disabled until this text (e.g. the record's name) is typed
+    typeToConfirm?: string;
+    confirmLabel?: string;
+    variant?: 'danger' | 'primary';
+}
+
+interface ConfirmRequest extends ConfirmOptions {
+    id: number;
+    resolve: (confirmed: boolean) => void;
+}
+
+interface ConfirmState {
+    request: ConfirmRequest | null;
+    open: (options: ConfirmOptions) => Promise<boolean>;
+    settle: (confirmed: boolean) => void;
+}
+
+let nextId = 0;
+
+export const useConfirmStore = create<ConfirmState>()((set, get) => ({
+    request: null,
+    open: (options) => new Promise<boolean>((resolve) => {
+        // Only one confirmation at a time; a newer one cancels the older
+        get().request?.resolve(false);
+        set({ request: { ...options, id: ++nextId, resolve } });
+    }),
+    settle: (confirmed) => {
+        get().request?.resolve(confirmed);
+        set({ request: null });
+    },
+}));
+
+// Drop-in for window.confirm: `if (!(await confirmAction({ title: 'Delete genre?' }))) return;`
+// Rendered by <ConfirmDialogHost />, mounted once in App.
+export const confirmAction = (options: ConfirmOptions) => useConfirmStore.getState().open(options);
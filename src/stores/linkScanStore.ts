@@ -0,0 +1,128 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { LinkCheckResult } from '../types';
+import { linkService } from '../services/link';
+import { getErrorMessage } from '../utils/errors';
+import { collectLinkTargets, type LinkTarget } from '../utils/linkScan';
+
+const BATCH_SIZE = 10; // URLs per request
+const CONCURRENCY = 3; // requests in flight
+
+interface LinkScanState {
+    // Persisted, so a scan interrupted by a reload or logout picks up where it stopped
+    targets: LinkTarget[] | null;
+    results: Record<string, LinkCheckResult>; // by URL
+    startedAt: string | null;
+    finishedAt: string | null;
+    // Session only
+    phase: 'idle' | 'collecting' | 'checking';
+    collected: { done: number; total: number } | null;
+    error: string | null;
+    start: () => Promise<void>;
+    resume: () => Promise<void>;
+    pause: () => void;
+}
+
+// Bumped on every start/pause so a superseded run stops taking new batches
+let runId = 0;
+
+const pendingUrls = (targets: LinkTarget[], results: Record<string, LinkCheckResult>) =>
+    [...new Set(targets.map((target) => target.url))].filter((url) => !results[url]);
+
+export const useLinkScanStore = create<LinkScanState>()(
+    persist(
+        (set, get) => {
+            const checkPending = async (id: number) => {
+                const { targets, results } = get();
+                const urls = pendingUrls(targets ?? [], results);
+                const batches = Array.from({ length: Math.ceil(urls.length / BATCH_SIZE) }, (_, i) =>
+                    urls.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE)
+                );
+                set({ phase: 'checking' });
+
+                let next = 0;
+                const worker = async () => {
+                    while (next < batches.length && id === runId) {
+                        const batch = batches[next++];
+                        const checked = await linkService.check(batch);
+                        if (id !== runId) return;
+                        // URLs the server skipped count as failed checks, so the report never claims them as checked
+                        const answered = new Set(checked.map((result) => result.url));
+                        const missing = batch
+                            .filter((url) => !answered.has(url))
+                            .map((url): LinkCheckResult => ({ url, ok: false, error: 'No result from the link checker' }));
+                        set((state) => ({
+                            results: { ...state.results, ...Object.fromEntries([...checked, ...missing].map((result) => [result.url, result])) },
+                        }));
+                    }
+                };
+
+                try {
+                    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, batches.length) }, worker));
+                    if (id === runId) set({ phase: 'idle', finishedAt: new Date().toISOString() });
+                } catch (error) {
+                    if (id !== runId) return;
+                    runId++; // stop the other workers; "Resume" retries what is left
+                    set({ phase: 'idle', error: getErrorMessage(error, 'Link check failed') });
+                }
+            };
+
+            return {
+                targets: null,
+                results: {},
+                startedAt: null,
+                finishedAt: null,
+                phase: 'idle',
+                collected: null,
+                error: null,
+
+                start: async () => {
+                    const id = ++runId;
+                    set({
+                        targets: null,
+                        results: {},
+                        startedAt: new Date().toISOString(),
+                        finishedAt: null,
+                        phase: 'collecting',
+                        collected: null,
+                        error: null,
+                    });
+                    try {
+                        const targets = await collectLinkTargets((done, total) => {
+                            if (id === runId) set({ collected: { done, total } });
+                        });
+                        if (id !== runId) return;
+                        set({ targets });
+                    } catch (error) {
+                        if (id === runId) set({ phase: 'idle', error: getErrorMessage(error, 'Failed to collect links') });
+                        return;
+                    }
+                    await checkPending(id);
+                },
+
+                resume: async () => {
+                    if (!get().targets) return get().start();
+                    const id = ++runId;
+                    set({ error: null });
+                    await checkPending(id);
+                },
+
+                pause: () => {
+                    runId++;
+                    set({ phase: 'idle' });
+                },
+            };
+        },
+        {
+            name: 'link-scan-storage',
+            partialize: ({ targets, results, startedAt, finishedAt }) => ({ targets, results, startedAt, finishedAt }),
+        }
+    )
+);
+
+// Unique URLs checked so far, out of all collected
+export const getScanProgress = (targets: LinkTarget[] | null, results: Record<string, LinkCheckResult>) => {
+    if (!targets) return { checked: 0, total: 0 };
+    const total = new Set(targets.map((target) => target.url)).size;
+    return { checked: total - pendingUrls(targets, results).length, total };
+};
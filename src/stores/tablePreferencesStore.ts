@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { VisibilityState } from '@tanstack/react-table';
+
+interface TablePreferencesState {
+    // Keyed by `${userId}:${tableId}` so people sharing a browser keep their own layout
+    columnVisibility: Record<string, VisibilityState>;
+    setColumnVisibility: (key: string, visibility: VisibilityState) => void;
+}
+
+export const useTablePreferencesStore = create<TablePreferencesState>()(
+    persist(
+        (set) => ({
+            columnVisibility: {},
+            setColumnVisibility: (key, visibility) => set((state) => ({
+                columnVisibility: { ...state.columnVisibility, [key]: visibility },
+            })),
+        }),
+        {
+            name: 'table-preferences-storage',
+        }
+    )
+);
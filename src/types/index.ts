@@ -11,16 +11,62 @@ export interface User {
     role: string;
     avatar_url?: string;
     is_banned?: boolean;
+    ban_reason?: string;
+    banned_until?: string | null; // null or missing means a permanent ban
+    created_at?: string;
+}
+
+export interface BanRecord {
+    id: string;
+    user_id: string;
+    action: 'ban' | 'unban';
+    reason: string;
+    expires_at?: string | null;
+    created_at: string;
+    created_by?: { id: string; name: string };
+}
+
+export interface WatchHistoryItem {
+    id: string;
+    episode_id: string;
+    episode_title: string;
+    episode_number: number;
+    season_number: number;
+    drama_id: string;
+    drama_title: string;
+    progress: number; // seconds watched
+    duration: number; // episode length in seconds
+    watched_at: string;
+}
+
+export interface FavoriteItem {
+    drama_id: string;
+    title: string;
+    poster_url: string;
+    added_at: string;
+}
+
+export interface UserActivity {
+    total_watch_time: number; // seconds
+    episodes_watched: number;
+    favorites_count: number;
+    last_active_at?: string;
 }
 
 export interface AuthResponse {
     success: boolean;
     data: {
         token: string;
+        refresh_token?: string;
         user: User;
     };
 }
 
+export interface RefreshTokenResponse {
+    token: string;
+    refresh_token?: string;
+}
+
 export interface LoginRequest {
     email: string;
     password: string;
@@ -30,14 +76,27 @@ export interface Genre {
     id: string;
     name: string;
     slug: string;
+    position?: number; // order of the genre rails in the app, lowest first
+    is_featured?: boolean; // shown as a rail on the app's home screen
+    drama_count?: number;
 }
 
+export type ActorSocialPlatform = 'instagram' | 'twitter' | 'facebook' | 'website';
+
 export interface Actor {
     id: string;
     name: string;
     photo_url: string;
+    // Profile fields, missing on actors created before they existed
+    birth_date?: string | null; // YYYY-MM-DD
+    nationality?: string;
+    bio?: string;
+    social_links?: Partial<Record<ActorSocialPlatform, string>>;
 }
 
+// Missing on older records, which were live as soon as they were created
+export type PublishState = 'draft' | 'scheduled' | 'published';
+
 export interface Drama {
     id: string;
     title: string;
@@ -51,6 +110,24 @@ export interface Drama {
     created_at: string;
     genres?: Genre[];
     actors?: { actor: Actor; role: string }[];
+    publish_state?: PublishState;
+    publish_at?: string | null; // when a scheduled drama goes live
+}
+
+// Shape accepted by the drama create/update endpoints
+export interface DramaInput extends Partial<Omit<Drama, 'id' | 'genres' | 'actors'>> {
+    genre_ids?: string[];
+    actors?: { actor_id: string; role: string }[];
+}
+
+// Saved by the API each time a drama is created, updated or restored
+export interface DramaRevision {
+    id: string;
+    drama_id: string;
+    version: number;
+    snapshot: Pick<Drama, 'title' | 'synopsis' | 'poster_url' | 'year' | 'total_seasons' | 'status' | 'genres' | 'actors' | 'publish_state' | 'publish_at'>;
+    author?: { id: string; name: string };
+    created_at: string;
 }
 
 export interface Episode {
@@ -62,6 +139,84 @@ export interface Episode {
     duration: number;
     thumbnail_url: string;
     view_count: number;
+    publish_state?: PublishState;
+    publish_at?: string | null;
+}
+
+export type TrashEntityType = 'drama' | 'season' | 'episode' | 'actor' | 'genre';
+
+// A soft-deleted record. Deleting a drama or season trashes its children with it,
+// and restoring the parent brings them back.
+export interface TrashItem {
+    id: string; // id of the deleted record
+    entity_type: TrashEntityType;
+    label: string; // title or name
+    context?: string; // e.g. the drama and season an episode belonged to
+    children_count?: number; // seasons/episodes removed along with it
+    deleted_at: string;
+    deleted_by?: { id: string; name: string };
+    purge_at: string; // when it is removed for good
+}
+
+export type AuditEntityType = 'drama' | 'season' | 'episode' | 'genre' | 'actor' | 'user' | 'media';
+
+// Written by the API for every mutation it accepts from the panel
+export interface AuditLogEntry {
+    id: string;
+    actor: { id: string; name: string; email: string };
+    action: string; // e.g. "create", "update", "delete", "ban", "change_role"
+    entity_type: AuditEntityType;
+    entity_id: string;
+    entity_label?: string; // title or name at the time of the change
+    before?: Record<string, unknown> | null; // null for creations
+    after?: Record<string, unknown> | null; // null for deletions
+    created_at: string;
+}
+
+export type MediaKind = 'poster' | 'photo' | 'thumbnail';
+
+// A file stored by the media service
+export interface MediaAsset {
+    id: string;
+    url: string;
+    filename: string;
+    kind: MediaKind;
+    content_type: string;
+    size: number; // bytes
+    width?: number;
+    height?: number;
+    // Records currently pointing at this URL
+    usage?: { dramas?: number; seasons?: number; episodes?: number; actors?: number };
+    flagged_for_cleanup?: boolean;
+    created_at: string;
+}
+
+// Result of the server fetching a video URL the way a player iframe would
+export interface EmbedCheckResult {
+    embeddable: boolean;
+    status?: number; // HTTP status of the embed URL
+    reason?: string; // e.g. "X-Frame-Options: DENY" or "Video is private"
+}
+
+// Result of the server requesting a stored URL
+export interface LinkCheckResult {
+    url: string;
+    ok: boolean;
+    status?: number; // HTTP status, missing when the request itself failed
+    response_ms?: number;
+    error?: string; // e.g. "timeout" or "DNS lookup failed"
+}
+
+export interface ScheduledRelease {
+    type: 'drama' | 'episode';
+    id: string;
+    drama_id: string;
+    drama_title: string;
+    title: string;
+    season_number?: number;
+    episode_number?: number;
+    poster_url?: string;
+    publish_at: string;
 }
 
 export interface Season {
@@ -69,9 +224,10 @@ export interface Season {
     drama_id: string;
     season_number: number;
     title: string;
-    synopsis?: string;
-    poster_url?: string;
-    release_date?: string;
+    // null clears the field on update
+    synopsis?: string | null;
+    poster_url?: string | null;
+    release_date?: string | null;
     episodes?: Episode[];
 }
 
@@ -82,4 +238,37 @@ export interface DashboardStats {
     total_views: number;
     new_users_count?: number;
     new_dramas_count?: number;
+    new_episodes_count?: number;
+    new_views_count?: number;
+}
+
+export type TimeSeriesInterval = 'day' | 'week' | 'month';
+
+export interface TimeSeriesPoint {
+    date: string; // start of the bucket, YYYY-MM-DD
+    views: number;
+    new_users: number;
+    new_episodes: number;
+}
+
+export type LeaderboardWindow = '7d' | '30d' | '90d' | 'all';
+
+export interface TopDrama {
+    id: string;
+    title: string;
+    poster_url: string;
+    status: 'ongoing' | 'completed';
+    views: number; // views within the selected window
+}
+
+export interface TopEpisode {
+    id: string;
+    drama_id: string;
+    drama_title: string;
+    season_id: string;
+    season_number: number;
+    episode_number: number;
+    title: string;
+    thumbnail_url: string;
+    views: number; // views within the selected window
 }
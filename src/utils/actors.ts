@@ -0,0 +1,34 @@
+import type { Actor, ActorSocialPlatform, Drama } from '../types';
+import { parseDateInput } from './date';
+
+export const ACTOR_SOCIAL_PLATFORMS: { platform: ActorSocialPlatform; label: string; placeholder: string }[] = [
+    { platform: 'instagram', label: 'Instagram', placeholder: 'https://instagram.com/...' },
+    { platform: 'twitter', label: 'X / Twitter', placeholder: 'https://x.com/...' },
+    { platform: 'facebook', label: 'Facebook', placeholder: 'https://facebook.com/...' },
+    { platform: 'website', label: 'Website', placeholder: 'https://...' },
+];
+
+export const ACTOR_ROLE_LABELS: Record<string, string> = {
+    main: 'Main Cast',
+    support: 'Supporting Cast',
+};
+
+// Age in whole years, or null without a valid birth date
+export const getActorAge = (birthDate?: string | null, today = new Date()) => {
+    if (!birthDate) return null;
+    const born = parseDateInput(birthDate);
+    if (Number.isNaN(born.getTime())) return null;
+    let age = today.getFullYear() - born.getFullYear();
+    const hadBirthday = today.getMonth() > born.getMonth()
+        || (today.getMonth() === born.getMonth() && today.getDate() >= born.getDate());
+    if (!hadBirthday) age--;
+    return age;
+};
+
+// Drop empty links so clearing an input removes the link instead of saving ""
+export const compactSocialLinks = (links: Actor['social_links'] = {}) =>
+    Object.fromEntries(Object.entries(links).filter(([, url]) => !!url?.trim())) as Actor['social_links'];
+
+// The actor's role in a drama, from Drama.actors
+export const getActorRole = (drama: Drama, actorId: string) =>
+    drama.actors?.find((cast) => cast.actor.id === actorId)?.role;
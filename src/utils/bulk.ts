@@ -0,0 +1,40 @@
+import { getErrorMessage } from './errors';
+
+export interface BulkFailure<T> {
+    item: T;
+    error: string;
+}
+
+export interface BulkResult<T> {
+    succeeded: T[];
+    failed: BulkFailure<T>[];
+}
+
+// Run `task` for every item with limited concurrency. Failures are collected
+// instead of aborting, so callers can report exactly which items did not go through.
+export const runBulk = async <T>(
+    items: T[],
+    task: (item: T) => Promise<unknown>,
+    { concurrency = 4, onProgress }: { concurrency?: number; onProgress?: (done: number, total: number) => void } = {}
+): Promise<BulkResult<T>> => {
+    const result: BulkResult<T> = { succeeded: [], failed: [] };
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const item = items[next++];
+            try {
+                await task(item);
+                result.succeeded.push(item);
+            } catch (error) {
+                result.failed.push({ item, error: getErrorMessage(error) });
+            }
+            done++;
+            onProgress?.(done, items.length);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return result;
+};
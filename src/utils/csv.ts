@@ -0,0 +1,73 @@
+// RFC 4180 style parser: quoted fields, escaped quotes ("") and newlines inside quotes
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    // Strip the BOM Excel likes to add
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+// Map every data row onto the header row. Header names are trimmed and lower-cased.
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const keys = header.map((key) => key.trim().toLowerCase());
+    return rows.map((row) =>
+        Object.fromEntries(keys.map((key, index) => [key, (row[index] ?? '').trim()]))
+    );
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    // Text only, so negative numbers stay numbers
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Inverse of parseCsv. Prefixed with a BOM so Excel detects UTF-8.
+export const toCsv = (rows: unknown[][]): string =>
+    '\uFEFF' + rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
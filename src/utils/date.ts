@@ -0,0 +1,94 @@
+export interface DateRange {
+    from: string; // YYYY-MM-DD
+    to: string; // YYYY-MM-DD
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Format a Date as YYYY-MM-DD in local time (what <input type="date"> expects)
+export const toDateInput = (date: Date) => {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
+
+export const parseDateInput = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+// True for a real YYYY-MM-DD date, e.g. from the URL; 2025-02-30 does not survive the round trip
+export const isDateInput = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateInput(parseDateInput(value)) === value;
+
+export const addDays = (date: Date, days: number) => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+// Last N days, including today
+export const lastNDays = (days: number): DateRange => {
+    const today = new Date();
+    return {
+        from: toDateInput(addDays(today, -(days - 1))),
+        to: toDateInput(today),
+    };
+};
+
+export const rangeLengthInDays = (range: DateRange) =>
+    Math.round((parseDateInput(range.to).getTime() - parseDateInput(range.from).getTime()) / DAY_MS) + 1;
+
+// Range of equal length ending the day before `range` starts
+export const previousRange = (range: DateRange): DateRange => {
+    const length = rangeLengthInDays(range);
+    const previousTo = addDays(parseDateInput(range.from), -1);
+    return {
+        from: toDateInput(addDays(previousTo, -(length - 1))),
+        to: toDateInput(previousTo),
+    };
+};
+
+// Plain YYYY-MM-DD values are treated as local dates, anything else as a timestamp
+export const parseDate = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDateInput(value) : new Date(value);
+
+export const formatShortDate = (value: string) =>
+    parseDate(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+
+// Human readable length for a number of seconds, e.g. "3h 25m"
+export const formatDuration = (seconds: number) => {
+    const totalMinutes = Math.round(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes}m`;
+    return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+};
+
+// Value for <input type="datetime-local">, in the browser's time zone
+export const toDateTimeInput = (date: Date) => {
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${toDateInput(date)}T${hours}:${minutes}`;
+};
+
+export const parseDateTimeInput = (value: string) => {
+    const [datePart, timePart = '00:00'] = value.split('T');
+    const [hours, minutes] = timePart.split(':').map(Number);
+    const date = parseDateInput(datePart);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+};
+
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const addMonths = (date: Date, months: number) => new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+// Monday of the week containing `date`
+export const startOfWeek = (date: Date) => {
+    const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    result.setDate(result.getDate() - ((result.getDay() + 6) % 7));
+    return result;
+};
@@ -0,0 +1,25 @@
+export interface FieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Top-level fields that differ between two snapshots, in first-seen order.
+// A missing snapshot (creation or deletion) reports every field of the other.
+export const diffRecords = (
+    before: Record<string, unknown> | null | undefined,
+    after: Record<string, unknown> | null | undefined
+): FieldChange[] => {
+    const fields = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+    return fields
+        .map((field) => ({ field, before: before?.[field], after: after?.[field] }))
+        .filter((change) => !isEqual(change.before, change.after));
+};
+
+export const formatDiffValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value, null, 2);
+};
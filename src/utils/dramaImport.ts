@@ -0,0 +1,320 @@
+import type { Episode, Genre, Season } from '../types';
+import { dramaSchema, type DramaFormData } from '../schemas/drama';
+import { episodeSchema, validateVideoHost, type EpisodeFormData } from '../schemas/episode';
+import { seasonSchema } from '../schemas/season';
+import { parseCsvRecords } from './csv';
+import { toPublishPayload } from './publishing';
+
+/*
+ * Client-side import of a drama with its seasons and episodes.
+ *
+ * JSON: { title, synopsis, year, status, poster_url, genres: [names],
+ *         seasons: [{ season_number, title, episodes: [{ episode_number, title, duration, video_url, thumbnail_url }] }] }
+ * CSV:  one row per episode with season_number, season_title, episode_number, title, duration,
+ *       video_url, thumbnail_url, publish_state, publish_at. Drama columns (drama_title, synopsis,
+ *       year, status, poster_url, genres separated by ";", drama_publish_state, drama_publish_at)
+ *       are read from the first row that has them.
+ *
+ * Durations are in minutes, like the episode form. Dramas and episodes may set publish_state
+ * (draft, scheduled, published) and publish_at as local "YYYY-MM-DDTHH:mm". New items default to
+ * published; existing episodes keep their state unless the file sets one.
+ */
+
+interface RawEpisode {
+    source: string; // where the row came from, for error messages
+    values: Record<string, unknown>;
+}
+
+interface RawSeason {
+    source: string;
+    season_number: unknown;
+    title?: unknown;
+    episodes: RawEpisode[];
+}
+
+export interface RawImport {
+    drama: Record<string, unknown>;
+    seasons: RawSeason[];
+}
+
+export interface ImportIssue {
+    source: string;
+    message: string;
+}
+
+interface ValidatedEpisode {
+    source: string;
+    data: EpisodeFormData;
+    setsPublishState: boolean; // false when publish_state was left out of the file
+}
+
+export interface ValidatedSeason {
+    season_number: number;
+    title: string;
+    episodes: ValidatedEpisode[];
+}
+
+export interface ValidatedImport {
+    drama: DramaFormData | null;
+    seasons: ValidatedSeason[];
+    issues: ImportIssue[];
+}
+
+export type EpisodeImportAction = 'create' | 'update' | 'unchanged';
+
+export interface EpisodePlan extends ValidatedEpisode {
+    action: EpisodeImportAction;
+    existing?: Episode;
+    changes: string[];
+}
+
+export interface SeasonPlan {
+    season_number: number;
+    title: string;
+    existing?: Season;
+    episodes: EpisodePlan[];
+}
+
+const CSV_DRAMA_COLUMNS: Record<string, string> = {
+    drama_title: 'title',
+    synopsis: 'synopsis',
+    year: 'year',
+    total_seasons: 'total_seasons',
+    status: 'status',
+    poster_url: 'poster_url',
+    genres: 'genres',
+    drama_publish_state: 'publish_state',
+    drama_publish_at: 'publish_at',
+};
+
+const EPISODE_FIELDS = ['episode_number', 'title', 'duration', 'video_url', 'thumbnail_url', 'publish_state', 'publish_at'];
+
+const pick = (values: Record<string, unknown>, keys: string[]) =>
+    Object.fromEntries(keys.filter((key) => values[key] !== undefined).map((key) => [key, values[key]]));
+
+const parseCsvImport = (text: string): RawImport => {
+    const records = parseCsvRecords(text);
+    const drama: Record<string, unknown> = {};
+    const seasons = new Map<string, RawSeason>();
+
+    records.forEach((record, index) => {
+        const source = `Row ${index + 2}`; // +1 for the header, +1 for 1-based lines
+
+        Object.entries(CSV_DRAMA_COLUMNS).forEach(([column, field]) => {
+            if (record[column] && drama[field] === undefined) drama[field] = record[column];
+        });
+
+        const seasonKey = record.season_number || '1';
+        if (!seasons.has(seasonKey)) {
+            seasons.set(seasonKey, { source, season_number: seasonKey, title: record.season_title || undefined, episodes: [] });
+        }
+        seasons.get(seasonKey)!.episodes.push({ source, values: pick(record, EPISODE_FIELDS) });
+    });
+
+    return { drama, seasons: [...seasons.values()] };
+};
+
+const parseJsonImport = (text: string): RawImport => {
+    const json = JSON.parse(text);
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new Error('Expected a JSON object describing one drama');
+    }
+    const { seasons = [], ...drama } = json as Record<string, unknown> & { seasons?: unknown };
+    if (!Array.isArray(seasons)) {
+        throw new Error('"seasons" must be an array');
+    }
+
+    return {
+        drama,
+        seasons: seasons.map((season: Record<string, unknown>, seasonIndex: number) => {
+            const label = `Season ${season?.season_number ?? seasonIndex + 1}`;
+            const episodes = Array.isArray(season?.episodes) ? season.episodes : [];
+            return {
+                source: label,
+                season_number: season?.season_number,
+                title: season?.title,
+                episodes: episodes.map((episode: Record<string, unknown>, episodeIndex: number) => ({
+                    source: `${label}, episode ${episode?.episode_number ?? `#${episodeIndex + 1}`}`,
+                    values: pick(episode ?? {}, EPISODE_FIELDS),
+                })),
+            };
+        }),
+    };
+};
+
+export const parseImportFile = async (file: File): Promise<RawImport> => {
+    const text = await file.text();
+    const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+    return isJson ? parseJsonImport(text) : parseCsvImport(text);
+};
+
+const zodMessages = (error: { issues: { path: PropertyKey[]; message: string }[] }) =>
+    error.issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+
+const resolveGenreIds = (value: unknown, genres: Genre[], issues: ImportIssue[]) => {
+    const names = Array.isArray(value)
+        ? value.map(String)
+        : typeof value === 'string' ? value.split(';') : [];
+
+    return names.map((name) => name.trim()).filter(Boolean).flatMap((name) => {
+        const needle = name.toLowerCase();
+        const genre = genres.find((g) => g.name.toLowerCase() === needle || g.slug?.toLowerCase() === needle);
+        if (!genre) {
+            issues.push({ source: 'Drama', message: `Unknown genre "${name}"` });
+            return [];
+        }
+        return [genre.id];
+    });
+};
+
+// Validate with the same zod schemas the forms use. `requireDrama` is false when
+// importing into an existing drama, in which case drama fields are ignored and
+// `existingSeasons` (with their episodes) lets stored video links pass unchanged.
+export const validateImport = (
+    raw: RawImport,
+    { genres, requireDrama, existingSeasons = [] }: { genres: Genre[]; requireDrama: boolean; existingSeasons?: Season[] }
+): ValidatedImport => {
+    const issues: ImportIssue[] = [];
+    let drama: DramaFormData | null = null;
+
+    if (requireDrama) {
+        const result = dramaSchema.safeParse({
+            title: raw.drama.title,
+            synopsis: raw.drama.synopsis,
+            poster_url: raw.drama.poster_url ?? '',
+            year: raw.drama.year,
+            total_seasons: raw.drama.total_seasons ?? Math.max(raw.seasons.length, 1),
+            status: raw.drama.status ?? 'ongoing',
+            genre_ids: resolveGenreIds(raw.drama.genres, genres, issues),
+            publish_state: raw.drama.publish_state || 'published',
+            publish_at: raw.drama.publish_at || undefined,
+        });
+        if (result.success) {
+            drama = result.data;
+        } else {
+            zodMessages(result.error).forEach((message) => issues.push({ source: 'Drama', message }));
+        }
+    }
+
+    if (raw.seasons.length === 0) {
+        issues.push({ source: 'File', message: 'No seasons or episodes found' });
+    }
+
+    const seenSeasons = new Set<number>();
+    const seasons: ValidatedSeason[] = [];
+
+    raw.seasons.forEach((rawSeason) => {
+        const seasonResult = seasonSchema.safeParse({
+            season_number: rawSeason.season_number,
+            title: rawSeason.title || `Season ${rawSeason.season_number}`,
+        });
+        if (!seasonResult.success) {
+            zodMessages(seasonResult.error).forEach((message) => issues.push({ source: rawSeason.source, message }));
+            return;
+        }
+        const { season_number, title } = seasonResult.data;
+        if (seenSeasons.has(season_number)) {
+            issues.push({ source: rawSeason.source, message: `Season ${season_number} appears more than once` });
+            return;
+        }
+        seenSeasons.add(season_number);
+        const existingEpisodes = existingSeasons.find((s) => s.season_number === season_number)?.episodes || [];
+
+        const seenEpisodes = new Set<number>();
+        const episodes = rawSeason.episodes.flatMap((rawEpisode) => {
+            const setsPublishState = !!rawEpisode.values.publish_state;
+            const result = episodeSchema.safeParse({
+                ...rawEpisode.values,
+                publish_state: rawEpisode.values.publish_state || 'published',
+                publish_at: rawEpisode.values.publish_at || undefined,
+            });
+            if (!result.success) {
+                zodMessages(result.error).forEach((message) => issues.push({ source: rawEpisode.source, message }));
+                return [];
+            }
+            const storedUrl = existingEpisodes.find((e) => e.episode_number === result.data.episode_number)?.video_url;
+            const videoError = validateVideoHost(result.data.video_url, storedUrl);
+            if (videoError) {
+                issues.push({ source: rawEpisode.source, message: `video_url: ${videoError}` });
+                return [];
+            }
+            if (seenEpisodes.has(result.data.episode_number)) {
+                issues.push({ source: rawEpisode.source, message: `Episode ${result.data.episode_number} appears more than once in season ${season_number}` });
+                return [];
+            }
+            seenEpisodes.add(result.data.episode_number);
+            return [{ source: rawEpisode.source, data: result.data, setsPublishState }];
+        });
+
+        seasons.push({ season_number, title, episodes });
+    });
+
+    seasons.sort((a, b) => a.season_number - b.season_number);
+    seasons.forEach((season) => season.episodes.sort((a, b) => a.data.episode_number - b.data.episode_number));
+
+    return { drama, seasons, issues };
+};
+
+const episodeChanges = ({ data, setsPublishState }: ValidatedEpisode, existing: Episode) => {
+    const changes: string[] = [];
+    if (data.title !== existing.title) changes.push('title');
+    if (data.duration !== Math.round(existing.duration / 60)) changes.push('duration');
+    if (data.video_url !== existing.video_url) changes.push('video_url');
+    if ((data.thumbnail_url || '') !== (existing.thumbnail_url || '')) changes.push('thumbnail_url');
+    if (setsPublishState) {
+        const publish = toPublishPayload(data);
+        const existingAt = existing.publish_at ? new Date(existing.publish_at).toISOString() : null;
+        if (publish.publish_state !== (existing.publish_state ?? 'published') || publish.publish_at !== existingAt) {
+            changes.push('publish_state');
+        }
+    }
+    return changes;
+};
+
+// Diff the validated file against what the drama already has, matching seasons and
+// episodes by number. `existingSeasons` must include their episodes.
+export const buildImportPlan = (validated: ValidatedImport, existingSeasons: Season[]): SeasonPlan[] =>
+    validated.seasons.map((season) => {
+        const existing = existingSeasons.find((s) => s.season_number === season.season_number);
+        return {
+            season_number: season.season_number,
+            title: season.title,
+            existing,
+            episodes: season.episodes.map((episode) => {
+                const existingEpisode = existing?.episodes?.find((e) => e.episode_number === episode.data.episode_number);
+                if (!existingEpisode) {
+                    return { ...episode, action: 'create' as const, changes: [] };
+                }
+                const changes = episodeChanges(episode, existingEpisode);
+                return {
+                    ...episode,
+                    action: changes.length ? 'update' as const : 'unchanged' as const,
+                    existing: existingEpisode,
+                    changes,
+                };
+            }),
+        };
+    });
+
+export const summarizeImportPlan = (plan: SeasonPlan[]) => {
+    const episodes = plan.flatMap((season) => season.episodes);
+    return {
+        newSeasons: plan.filter((season) => !season.existing).length,
+        create: episodes.filter((e) => e.action === 'create').length,
+        update: episodes.filter((e) => e.action === 'update').length,
+        unchanged: episodes.filter((e) => e.action === 'unchanged').length,
+    };
+};
+
+// Form values use minutes; the API wants seconds. Updates leave the publish state alone
+// unless the file set one.
+export const toEpisodePayload = ({ data, action, setsPublishState }: EpisodePlan, seasonId: string) => {
+    const { publish_state, publish_at, ...fields } = data;
+    return {
+        ...fields,
+        thumbnail_url: data.thumbnail_url || '',
+        duration: data.duration * 60,
+        season_id: seasonId,
+        ...(action === 'create' || setsPublishState ? toPublishPayload({ publish_state, publish_at }) : {}),
+    };
+};
@@ -0,0 +1,115 @@
+// Names closer than this (0..1, 1 = identical after normalizing) are reported as likely duplicates
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export type DuplicateReason = 'similar_name' | 'same_image' | 'same_slug';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+    similar_name: 'Similar name',
+    same_image: 'Same photo',
+    same_slug: 'Same slug',
+};
+
+export interface DuplicateGroup<T> {
+    items: T[];
+    reasons: DuplicateReason[];
+}
+
+interface DuplicateOptions<T> {
+    getId: (item: T) => string;
+    getName: (item: T) => string;
+    // Exact-match keys, e.g. the photo URL; empty values are ignored
+    keys?: { reason: DuplicateReason; get: (item: T) => string | undefined }[];
+}
+
+// Case, accents, punctuation and word order are ignored: "Kim Soo-hyun" matches "soohyun kim"
+export const normalizeName = (name: string) =>
+    name
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, '')
+        .split(/\s+/)
+        .filter(Boolean)
+        .sort()
+        .join(' ');
+
+const levenshtein = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Both arguments already normalized
+const similarity = (left: string, right: string) => {
+    if (!left || !right) return 0;
+    if (left.replace(/\s/g, '') === right.replace(/\s/g, '')) return 1;
+    const longest = Math.max(left.length, right.length);
+    // The edit distance is at least the length difference, so skip pairs that cannot match
+    if (Math.abs(left.length - right.length) / longest > 1 - NAME_SIMILARITY_THRESHOLD) return 0;
+    return 1 - levenshtein(left, right) / longest;
+};
+
+export const nameSimilarity = (a: string, b: string) => similarity(normalizeName(a), normalizeName(b));
+
+// Group records that look like the same thing. Matches are transitive, so A~B and B~C
+// end up in one group even if A and C alone would not match.
+export const findDuplicateGroups = <T>(items: T[], { getId, getName, keys = [] }: DuplicateOptions<T>): DuplicateGroup<T>[] => {
+    const parent = new Map(items.map((item) => [getId(item), getId(item)]));
+    const reasons = new Map<string, Set<DuplicateReason>>();
+
+    const find = (id: string): string => {
+        const root = parent.get(id)!;
+        if (root === id) return id;
+        const top = find(root);
+        parent.set(id, top);
+        return top;
+    };
+    const union = (a: T, b: T, reason: DuplicateReason) => {
+        const rootA = find(getId(a));
+        const rootB = find(getId(b));
+        const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+        parent.set(rootB, rootA);
+        reasons.set(rootA, merged);
+    };
+
+    keys.forEach(({ reason, get }) => {
+        const seen = new Map<string, T>();
+        items.forEach((item) => {
+            const value = get(item)?.trim().toLowerCase();
+            if (!value) return;
+            const first = seen.get(value);
+            if (first) union(first, item, reason);
+            else seen.set(value, item);
+        });
+    });
+
+    // Pairwise is fine for the few thousand records these tables hold
+    const names = items.map((item) => normalizeName(getName(item)));
+    for (let i = 0; i < items.length; i++) {
+        for (let j = i + 1; j < items.length; j++) {
+            if (similarity(names[i], names[j]) >= NAME_SIMILARITY_THRESHOLD) {
+                union(items[i], items[j], 'similar_name');
+            }
+        }
+    }
+
+    const groups = new Map<string, T[]>();
+    items.forEach((item) => {
+        const root = find(getId(item));
+        groups.set(root, [...(groups.get(root) ?? []), item]);
+    });
+
+    return [...groups.entries()]
+        .filter(([, group]) => group.length > 1)
+        .map(([root, group]) => ({ items: group, reasons: [...(reasons.get(root) ?? [])] }));
+};
@@ -0,0 +1,24 @@
+import type { Episode } from '../types';
+
+export interface NumberingIssues {
+    duplicates: number[];
+    missing: number[]; // gaps between 1 and the highest number
+}
+
+export const byEpisodeNumber = (a: Episode, b: Episode) => a.episode_number - b.episode_number;
+
+export const findNumberingIssues = (episodes: Pick<Episode, 'episode_number'>[]): NumberingIssues => {
+    const counts = new Map<number, number>();
+    episodes.forEach(({ episode_number }) => counts.set(episode_number, (counts.get(episode_number) || 0) + 1));
+
+    const highest = Math.max(0, ...counts.keys());
+    const missing = Array.from({ length: highest }, (_, i) => i + 1).filter((n) => !counts.has(n));
+    const duplicates = [...counts].filter(([, count]) => count > 1).map(([n]) => n).sort((a, b) => a - b);
+    return { duplicates, missing };
+};
+
+export const hasNumberingIssues = (issues: NumberingIssues) => issues.duplicates.length > 0 || issues.missing.length > 0;
+
+// Number episodes 1..n in their current order
+export const renumberEpisodes = <T extends Pick<Episode, 'episode_number'>>(episodes: T[]): T[] =>
+    episodes.map((episode, index) => ({ ...episode, episode_number: index + 1 }));
@@ -0,0 +1,10 @@
+import { isAxiosError } from 'axios';
+
+// Prefer the API's own message over the generic axios/JS one
+export const getErrorMessage = (error: unknown, fallback = 'Unexpected error') => {
+    if (isAxiosError(error)) {
+        return (error.response?.data as { message?: string } | undefined)?.message || error.message || fallback;
+    }
+    if (error instanceof Error) return error.message;
+    return fallback;
+};
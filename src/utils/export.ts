@@ -0,0 +1,47 @@
+import { toCsv } from './csv';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+    header: string;
+    value: (row: T) => ExportValue;
+    width?: number; // XLSX column width in characters
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+// e.g. "dramas-2024-05-01"
+export const exportFilename = (name: string) => `${name}-${new Date().toISOString().slice(0, 10)}`;
+
+export const exportRows = async <T>(
+    rows: T[],
+    columns: ExportColumn<T>[],
+    { filename, format, sheet }: { filename: string; format: ExportFormat; sheet?: string }
+) => {
+    if (format === 'csv') {
+        const data = [columns.map((c) => c.header), ...rows.map((row) => columns.map((c) => c.value(row)))];
+        downloadBlob(new Blob([toCsv(data)], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+        return;
+    }
+
+    // Loaded on demand so the spreadsheet writer stays out of the main bundle
+    const { default: writeXlsxFile } = await import('write-excel-file/browser');
+    const header = columns.map((c) => ({ value: c.header, fontWeight: 'bold' as const }));
+    const body = rows.map((row) => columns.map((c) => c.value(row) ?? null));
+    await writeXlsxFile([header, ...body], {
+        sheet,
+        stickyRowsCount: 1,
+        columns: columns.map((c) => ({ width: c.width ?? 20 })),
+    }).toFile(`${filename}.xlsx`);
+};
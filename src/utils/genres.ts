@@ -0,0 +1,9 @@
+import type { Genre } from '../types';
+
+// Rail order; genres that were never placed go last, by name
+export const byGenrePosition = (a: Genre, b: Genre) =>
+    (a.position ?? Infinity) - (b.position ?? Infinity) || a.name.localeCompare(b.name);
+
+// Position for a new genre so it joins the end of the rails
+export const nextGenrePosition = (genres: Genre[]) =>
+    genres.reduce((max, genre) => Math.max(max, genre.position ?? 0), 0) + 1;
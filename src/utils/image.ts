@@ -0,0 +1,92 @@
+import type { MediaKind } from '../types';
+
+// Client-side crop/resize so uploads arrive at the sizes the apps display
+
+export interface ImagePreset {
+    label: string;
+    aspect: number; // width / height
+    width: number; // output size; smaller sources are not upscaled
+    height: number;
+}
+
+export const IMAGE_PRESETS: Record<MediaKind, ImagePreset> = {
+    poster: { label: 'Poster (2:3)', aspect: 2 / 3, width: 600, height: 900 },
+    thumbnail: { label: 'Thumbnail (16:9)', aspect: 16 / 9, width: 1280, height: 720 },
+    photo: { label: 'Photo (1:1)', aspect: 1, width: 400, height: 400 },
+};
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024; // before resizing
+
+const OUTPUT_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.85;
+
+// Area of the source image to keep, in source pixels
+export interface CropArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const loadImageFile = (file: File) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(image);
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not read image'));
+        };
+        image.src = url;
+    });
+
+// Largest area of `aspect` at 1/zoom of that size, centred on (centerX, centerY) and kept inside the image
+export const getCropArea = (
+    image: { naturalWidth: number; naturalHeight: number },
+    aspect: number,
+    zoom: number,
+    center?: { x: number; y: number }
+): CropArea => {
+    const { naturalWidth: imageWidth, naturalHeight: imageHeight } = image;
+    const width = Math.min(imageWidth, imageHeight * aspect) / zoom;
+    const height = width / aspect;
+    const centerX = center?.x ?? imageWidth / 2;
+    const centerY = center?.y ?? imageHeight / 2;
+    return {
+        x: Math.min(Math.max(centerX - width / 2, 0), imageWidth - width),
+        y: Math.min(Math.max(centerY - height / 2, 0), imageHeight - height),
+        width,
+        height,
+    };
+};
+
+export const drawCrop = (canvas: HTMLCanvasElement, image: HTMLImageElement, crop: CropArea) => {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+};
+
+export const exportCrop = (image: HTMLImageElement, crop: CropArea, preset: ImagePreset) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(Math.min(preset.width, crop.width));
+    canvas.height = Math.round(canvas.width / preset.aspect);
+    drawCrop(canvas, image, crop);
+
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+            OUTPUT_TYPE,
+            OUTPUT_QUALITY
+        );
+    });
+};
+
+// "My Poster.png" -> "my-poster.jpg", matching the re-encoded output
+export const croppedFilename = (name: string) =>
+    `${name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'image'}.jpg`;
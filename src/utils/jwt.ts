@@ -0,0 +1,22 @@
+interface JwtPayload {
+    exp?: number; // seconds since epoch
+    [claim: string]: unknown;
+}
+
+export const decodeJwt = (token: string): JwtPayload | null => {
+    try {
+        const payload = token.split('.')[1];
+        if (!payload) return null;
+        // JWTs use base64url without padding
+        const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+        return JSON.parse(atob(base64));
+    } catch {
+        return null;
+    }
+};
+
+// Expiry of the token in milliseconds since epoch, null when the token carries no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+    const exp = decodeJwt(token)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+};
@@ -0,0 +1,132 @@
+import type { Actor, Drama, Episode, LinkCheckResult, Season } from '../types';
+import { actorService } from '../services/actor';
+import { dramaService } from '../services/drama';
+import { episodeService, seasonService } from '../services/episode';
+import { fetchAllPages } from './pagination';
+import { runBulk } from './bulk';
+
+export type LinkKind = 'poster' | 'photo' | 'thumbnail' | 'video';
+
+export type LinkHealth = 'ok' | 'slow' | 'broken';
+
+// One stored URL and the record it belongs to. Several targets may share a URL.
+export interface LinkTarget {
+    url: string;
+    kind: LinkKind;
+    label: string; // e.g. "Poster" or "S1E3 Video"
+    groupId: string; // drama id, or ACTORS_GROUP_ID
+    groupTitle: string;
+    fixPath: string; // edit screen for the record
+}
+
+export interface LinkIssue {
+    target: LinkTarget;
+    result: LinkCheckResult;
+    health: Exclude<LinkHealth, 'ok'>;
+}
+
+export interface LinkIssueGroup {
+    id: string;
+    title: string;
+    issues: LinkIssue[];
+}
+
+export const ACTORS_GROUP_ID = 'actors';
+
+export const SLOW_LINK_MS = 3000;
+
+const FETCH_LIMIT = 100;
+
+const isHttpUrl = (url?: string): url is string => !!url && /^https?:\/\//i.test(url.trim());
+
+const dramaTargets = (drama: Drama, seasons: (Season & { episodes: Episode[] })[]): LinkTarget[] => {
+    const group = { groupId: drama.id, groupTitle: drama.title };
+    const targets: LinkTarget[] = [];
+
+    if (isHttpUrl(drama.poster_url)) {
+        targets.push({ ...group, url: drama.poster_url, kind: 'poster', label: 'Poster', fixPath: `/dramas/${drama.id}/edit` });
+    }
+    seasons.forEach((season) => {
+        const fixPath = `/dramas/${drama.id}/episodes?season=${season.id}`;
+        season.episodes.forEach((episode) => {
+            const code = `S${season.season_number}E${episode.episode_number}`;
+            if (isHttpUrl(episode.thumbnail_url)) {
+                targets.push({ ...group, url: episode.thumbnail_url, kind: 'thumbnail', label: `${code} Thumbnail`, fixPath });
+            }
+            if (isHttpUrl(episode.video_url)) {
+                targets.push({ ...group, url: episode.video_url, kind: 'video', label: `${code} Video`, fixPath });
+            }
+        });
+    });
+    return targets;
+};
+
+const actorTarget = (actor: Actor): LinkTarget[] =>
+    isHttpUrl(actor.photo_url)
+        ? [{
+            url: actor.photo_url,
+            kind: 'photo',
+            label: `${actor.name} Photo`,
+            groupId: ACTORS_GROUP_ID,
+            groupTitle: 'Actors',
+            fixPath: `/actors?search=${encodeURIComponent(actor.name)}`,
+        }]
+        : [];
+
+// Walk every drama, season, episode and actor. `onProgress` counts dramas, the slow part.
+export const collectLinkTargets = async (onProgress?: (done: number, total: number) => void): Promise<LinkTarget[]> => {
+    const [dramas, actors] = await Promise.all([
+        fetchAllPages<Drama>((page) => dramaService.getAll({ page, limit: FETCH_LIMIT }), { limit: FETCH_LIMIT }),
+        fetchAllPages<Actor>((page) => actorService.getAll({ page, limit: FETCH_LIMIT }), { limit: FETCH_LIMIT }),
+    ]);
+
+    const targets: LinkTarget[][] = [];
+    const { failed } = await runBulk(dramas, async (drama) => {
+        const seasons = (await seasonService.getByDrama(drama.id)) || [];
+        const withEpisodes = await Promise.all(seasons.map(async (season) => ({
+            ...season,
+            episodes: (await episodeService.getBySeason(season.id)) || [],
+        })));
+        targets.push(dramaTargets(drama, withEpisodes));
+    }, { onProgress });
+
+    if (failed.length > 0) {
+        throw new Error(`Could not load episodes for ${failed.length} dramas`);
+    }
+    return [...targets.flat(), ...actors.flatMap(actorTarget)];
+};
+
+export const getLinkHealth = (result: LinkCheckResult): LinkHealth => {
+    if (!result.ok) return 'broken';
+    return (result.response_ms ?? 0) > SLOW_LINK_MS ? 'slow' : 'ok';
+};
+
+export const describeLinkResult = (result: LinkCheckResult) => {
+    if (!result.ok) return result.error || (result.status ? `HTTP ${result.status}` : 'Unreachable');
+    return result.response_ms !== undefined ? `${(result.response_ms / 1000).toFixed(1)}s` : 'OK';
+};
+
+// Dead and slow links by drama, worst groups first. Actors come last in their own group.
+export const groupLinkIssues = (targets: LinkTarget[], results: Record<string, LinkCheckResult>): LinkIssueGroup[] => {
+    const groups = new Map<string, LinkIssueGroup>();
+
+    targets.forEach((target) => {
+        const result = results[target.url];
+        if (!result) return;
+        const health = getLinkHealth(result);
+        if (health === 'ok') return;
+
+        if (!groups.has(target.groupId)) {
+            groups.set(target.groupId, { id: target.groupId, title: target.groupTitle, issues: [] });
+        }
+        groups.get(target.groupId)!.issues.push({ target, result, health });
+    });
+
+    const brokenCount = (group: LinkIssueGroup) => group.issues.filter((issue) => issue.health === 'broken').length;
+    return [...groups.values()].sort((a, b) =>
+        Number(a.id === ACTORS_GROUP_ID) - Number(b.id === ACTORS_GROUP_ID)
+        || brokenCount(b) - brokenCount(a)
+        || b.issues.length - a.issues.length
+        || a.title.localeCompare(b.title)
+    );
+};
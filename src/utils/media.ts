@@ -0,0 +1,34 @@
+import type { MediaAsset, MediaKind } from '../types';
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+    poster: 'Poster',
+    photo: 'Actor Photo',
+    thumbnail: 'Thumbnail',
+};
+
+const USAGE_NOUNS: [keyof NonNullable<MediaAsset['usage']>, string][] = [
+    ['dramas', 'drama'],
+    ['seasons', 'season'],
+    ['episodes', 'episode'],
+    ['actors', 'actor'],
+];
+
+export const getMediaUsageCount = (asset: MediaAsset) =>
+    USAGE_NOUNS.reduce((sum, [key]) => sum + (asset.usage?.[key] ?? 0), 0);
+
+// e.g. "Used by 3 dramas and 1 episode"
+export const describeMediaUsage = (asset: MediaAsset) => {
+    const parts = USAGE_NOUNS
+        .map(([key, noun]) => ({ count: asset.usage?.[key] ?? 0, noun }))
+        .filter(({ count }) => count > 0)
+        .map(({ count, noun }) => `${count} ${noun}${count === 1 ? '' : 's'}`);
+    if (parts.length === 0) return 'Unused';
+    const last = parts.pop();
+    return `Used by ${parts.length ? `${parts.join(', ')} and ${last}` : last}`;
+};
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,111 @@
+import type { Actor, Drama, DramaInput, Genre } from '../types';
+import { actorService } from '../services/actor';
+import { dramaService } from '../services/drama';
+import { genreService } from '../services/genre';
+import { runBulk } from './bulk';
+import { fetchAllPages } from './pagination';
+
+const DRAMA_FETCH_LIMIT = 100;
+
+export interface MergeProgress {
+    done: number;
+    total: number;
+}
+
+export interface MergeResult {
+    reassigned: number; // dramas updated
+    failed: { label: string; error: string }[];
+}
+
+const fetchDramas = (filter: { actor?: string; genre?: string }) =>
+    fetchAllPages<Drama>(
+        (p) => dramaService.getAll({ page: p, limit: DRAMA_FETCH_LIMIT, ...filter }),
+        { limit: DRAMA_FETCH_LIMIT }
+    );
+
+// Point every drama that links a duplicate at the survivor, then delete the duplicates.
+// A duplicate is only deleted once all of its dramas were updated, so a partial failure
+// never drops links; run the merge again after fixing the cause. Dramas are checked with
+// `links` as well, in case the API ignores the list filter and returns every drama.
+const mergeRecords = async <T extends { id: string }>(
+    survivor: T,
+    duplicates: T[],
+    {
+        findDramas,
+        links,
+        relink,
+        remove,
+        getLabel,
+        onProgress,
+    }: {
+        findDramas: (duplicate: T) => Promise<Drama[]>;
+        links: (drama: Drama, duplicate: T) => boolean;
+        relink: (current: Drama) => DramaInput;
+        remove: (id: string) => Promise<unknown>;
+        getLabel: (record: T) => string;
+        onProgress?: (progress: MergeProgress) => void;
+    }
+): Promise<MergeResult> => {
+    const byDrama = new Map<string, { drama: Drama; sources: string[] }>();
+    for (const duplicate of duplicates) {
+        (await findDramas(duplicate)).filter((drama) => links(drama, duplicate)).forEach((drama) => {
+            const entry = byDrama.get(drama.id) ?? { drama, sources: [] };
+            entry.sources.push(duplicate.id);
+            byDrama.set(drama.id, entry);
+        });
+    }
+
+    const entries = [...byDrama.values()];
+    const result = await runBulk(
+        entries,
+        ({ drama }) => dramaService.updateFields(drama.id, relink),
+        { onProgress: (done, total) => onProgress?.({ done, total }) }
+    );
+
+    const failedSources = new Set(result.failed.flatMap(({ item }) => item.sources));
+    const removable = duplicates.filter((d) => !failedSources.has(d.id) && d.id !== survivor.id);
+    const removed = await runBulk(removable, (d) => remove(d.id));
+
+    return {
+        reassigned: result.succeeded.length,
+        failed: [
+            ...result.failed.map(({ item, error }) => ({ label: item.drama.title, error })),
+            ...removed.failed.map(({ item, error }) => ({ label: `Deleting ${getLabel(item)}`, error })),
+        ],
+    };
+};
+
+// Main cast wins when the survivor and a duplicate were both credited on the same drama
+export const mergeActors = (survivor: Actor, duplicates: Actor[], onProgress?: (progress: MergeProgress) => void) => {
+    const duplicateIds = duplicates.map((d) => d.id);
+    return mergeRecords(survivor, duplicates, {
+        findDramas: (duplicate) => fetchDramas({ actor: duplicate.id }),
+        links: (drama, duplicate) => !!drama.actors?.some(({ actor }) => actor.id === duplicate.id),
+        relink: (current) => {
+            const roles = new Map<string, string>();
+            (current.actors || []).forEach(({ actor, role }) => {
+                const id = duplicateIds.includes(actor.id) ? survivor.id : actor.id;
+                roles.set(id, roles.get(id) === 'main' ? 'main' : role);
+            });
+            return { actors: [...roles.entries()].map(([actor_id, role]) => ({ actor_id, role })) };
+        },
+        remove: actorService.delete,
+        getLabel: (actor) => actor.name,
+        onProgress,
+    });
+};
+
+export const mergeGenres = (survivor: Genre, duplicates: Genre[], onProgress?: (progress: MergeProgress) => void) => {
+    const duplicateIds = duplicates.map((d) => d.id);
+    return mergeRecords(survivor, duplicates, {
+        findDramas: (duplicate) => fetchDramas({ genre: duplicate.id }),
+        links: (drama, duplicate) => !!drama.genres?.some((genre) => genre.id === duplicate.id),
+        relink: (current) => {
+            const ids = (current.genres || []).map((g) => (duplicateIds.includes(g.id) ? survivor.id : g.id));
+            return { genre_ids: [...new Set(ids)] };
+        },
+        remove: genreService.delete,
+        getLabel: (genre) => genre.name,
+        onProgress,
+    });
+};
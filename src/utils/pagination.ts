@@ -0,0 +1,24 @@
+interface Page<T> {
+    items: T[];
+    total_pages?: number;
+}
+
+// Walk a paginated endpoint until the last page and collect every item.
+// `maxPages` guards against endpoints that never report an end.
+export const fetchAllPages = async <T>(
+    fetchPage: (page: number) => Promise<Page<T> | T[]>,
+    { limit, maxPages = 200 }: { limit: number; maxPages?: number }
+): Promise<T[]> => {
+    const all: T[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+        const data = await fetchPage(page);
+        // Some endpoints (genres) return a flat array instead of a page object
+        const items = Array.isArray(data) ? data : data.items || [];
+        all.push(...items);
+
+        const totalPages = Array.isArray(data) ? undefined : data.total_pages;
+        const isLastPage = totalPages !== undefined ? page >= totalPages : items.length < limit;
+        if (isLastPage) break;
+    }
+    return all;
+};
@@ -0,0 +1,69 @@
+export type Role = 'super_admin' | 'admin' | 'editor' | 'moderator' | 'analyst' | 'user';
+
+export type Permission =
+    | 'dashboard:view'
+    | 'analytics:view'
+    | 'dramas:view'
+    | 'dramas:edit'
+    | 'dramas:delete'
+    | 'genres:manage'
+    | 'actors:manage'
+    | 'media:manage'
+    | 'users:view'
+    | 'users:ban'
+    | 'users:delete'
+    | 'users:change_role'
+    | 'audit:view'
+    | 'trash:purge';
+
+const ALL_PERMISSIONS: Permission[] = [
+    'dashboard:view',
+    'analytics:view',
+    'dramas:view',
+    'dramas:edit',
+    'dramas:delete',
+    'genres:manage',
+    'actors:manage',
+    'media:manage',
+    'users:view',
+    'users:ban',
+    'users:delete',
+    'users:change_role',
+    'audit:view',
+    'trash:purge',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    super_admin: ALL_PERMISSIONS,
+    // Admins could already change roles before the finer-grained roles existed
+    admin: ALL_PERMISSIONS,
+    editor: ['dashboard:view', 'analytics:view', 'dramas:view', 'dramas:edit', 'genres:manage', 'actors:manage', 'media:manage'],
+    moderator: ['dashboard:view', 'users:view', 'users:ban'],
+    analyst: ['dashboard:view', 'analytics:view', 'dramas:view', 'users:view'],
+    user: [],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+    super_admin: 'Super Admin',
+    admin: 'Admin',
+    editor: 'Content Editor',
+    moderator: 'Moderator',
+    analyst: 'Analyst',
+    user: 'User',
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+const isRole = (role: string | undefined): role is Role =>
+    !!role && (ROLES as string[]).includes(role);
+
+// Unknown roles get no permissions
+export const hasPermission = (role: string | undefined, permission: Permission) =>
+    isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+
+// Any role with at least one permission may sign in to the panel
+export const isStaffRole = (role: string | undefined) =>
+    isRole(role) && ROLE_PERMISSIONS[role].length > 0;
+
+export const getRoleLabel = (role: string | undefined) =>
+    isRole(role) ? ROLE_LABELS[role] : role || 'Unknown';
@@ -0,0 +1,36 @@
+import type { PublishState } from '../types';
+import { parseDateTimeInput, toDateTimeInput } from './date';
+
+interface Publishable {
+    publish_state?: PublishState;
+    publish_at?: string | null;
+}
+
+export const PUBLISH_STATE_LABELS: Record<PublishState, string> = {
+    draft: 'Draft',
+    scheduled: 'Scheduled',
+    published: 'Published',
+};
+
+// A scheduled item whose time has passed is live even before the server flips its state
+export const getPublishState = (item: Publishable): PublishState => {
+    const state = item.publish_state ?? 'published';
+    if (state === 'scheduled' && item.publish_at && new Date(item.publish_at) <= new Date()) return 'published';
+    return state;
+};
+
+// Form values for the publish fields of an existing record. Past-due scheduled items load as
+// published, otherwise the "must be in the future" rule would block every later save.
+export const toPublishFormValues = (item: Publishable) => {
+    const publish_state = getPublishState(item);
+    return {
+        publish_state,
+        publish_at: publish_state === 'scheduled' && item.publish_at ? toDateTimeInput(new Date(item.publish_at)) : '',
+    };
+};
+
+// The form works in local time; the API takes an ISO timestamp, and only for scheduled items
+export const toPublishPayload = ({ publish_state, publish_at }: { publish_state: PublishState; publish_at?: string }) => ({
+    publish_state,
+    publish_at: publish_state === 'scheduled' && publish_at ? parseDateTimeInput(publish_at).toISOString() : null,
+});
@@ -0,0 +1,21 @@
+import type { DramaRevision } from '../types';
+import { PUBLISH_STATE_LABELS } from './publishing';
+
+type RevisionFields = DramaRevision['snapshot'];
+
+// Readable, order-independent form of a drama for diffing. Keys are the labels shown in the diff.
+export const toRevisionRecord = (drama: RevisionFields): Record<string, unknown> => ({
+    Title: drama.title,
+    Synopsis: drama.synopsis,
+    Poster: drama.poster_url || '',
+    Year: drama.year,
+    Seasons: drama.total_seasons,
+    Status: drama.status,
+    Visibility: PUBLISH_STATE_LABELS[drama.publish_state ?? 'published'],
+    'Publish At': drama.publish_state === 'scheduled' && drama.publish_at ? new Date(drama.publish_at).toLocaleString() : '',
+    Genres: (drama.genres ?? []).map((genre) => genre.name).sort().join(', '),
+    Cast: (drama.actors ?? [])
+        .map((cast) => `${cast.actor.name} (${cast.role})`)
+        .sort()
+        .join('\n'),
+});
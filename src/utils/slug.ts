@@ -0,0 +1,18 @@
+// Lowercase ASCII words joined by dashes, e.g. "Sci-Fi & Fantasy" -> "sci-fi-fantasy"
+export const slugify = (value: string) =>
+    value
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// First of `base`, `base-2`, `base-3`... that is not taken
+export const uniqueSlug = (base: string, taken: Set<string>) => {
+    if (!taken.has(base)) return base;
+    let suffix = 2;
+    while (taken.has(`${base}-${suffix}`)) suffix++;
+    return `${base}-${suffix}`;
+};
@@ -0,0 +1,39 @@
+import type { ColumnSort, SortingState } from '@tanstack/react-table';
+
+// The API only sorts by these keys, so pages map each key they support to a column header.
+// The URL keeps the key itself as `sort`.
+export type SortKey = 'popular' | 'rating' | 'latest' | 'oldest';
+export type SortKeyColumns = Partial<Record<SortKey, ColumnSort>>;
+
+export const parseSortParam = (value: string | null, columns: SortKeyColumns): SortingState => {
+    const column = columns[value as SortKey];
+    return column ? [column] : [];
+};
+
+// Empty when the header sort has no API key, e.g. ascending on a descending-only key
+export const formatSortParam = (sorting: SortingState, columns: SortKeyColumns) => {
+    const [current] = sorting;
+    const match = Object.entries(columns).find(([, column]) => column.id === current?.id && column.desc === current.desc);
+    return match ? match[0] : '';
+};
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+// Pages keep the page size in the URL as `limit`, next to `page` and `sort`
+export const parsePageSize = (value: string | null) => {
+    const size = Number(value);
+    return PAGE_SIZE_OPTIONS.includes(size) ? size : PAGE_SIZE_OPTIONS[0];
+};
+
+// Copy of `params` with `changes` applied; empty values drop the key to keep URLs short
+export const mergeSearchParams = (params: URLSearchParams, changes: Record<string, string | number>) => {
+    const next = new URLSearchParams(params);
+    Object.entries(changes).forEach(([key, value]) => {
+        if (value === '' || value === undefined) {
+            next.delete(key);
+        } else {
+            next.set(key, String(value));
+        }
+    });
+    return next;
+};
@@ -0,0 +1,40 @@
+import { toast } from 'sonner';
+
+// How long the Undo button stays on screen
+export const UNDO_WINDOW_MS = 8000;
+
+interface UndoToastOptions {
+    // Compensating call, e.g. restoring from the trash or writing the previous values back
+    undo: () => Promise<unknown>;
+    onUndone?: () => void; // refresh whatever the page shows
+    id?: string | number; // replace an existing toast, e.g. a bulk progress toast
+}
+
+const runUndo = async ({ undo, onUndone }: UndoToastOptions) => {
+    const toastId = toast.loading('Undoing...');
+    try {
+        await undo();
+        toast.success('Undone', { id: toastId });
+        onUndone?.();
+    } catch (error) {
+        console.error('Undo failed', error);
+        toast.error('Undo failed', { id: toastId });
+    }
+};
+
+// Success toast with an Undo button that reverses the operation while it is visible
+export const toastWithUndo = (message: string, options: UndoToastOptions) => {
+    let isUndone = false;
+    toast.success(message, {
+        id: options.id,
+        duration: UNDO_WINDOW_MS,
+        action: {
+            label: 'Undo',
+            onClick: () => {
+                if (isUndone) return;
+                isUndone = true;
+                runUndo(options);
+            },
+        },
+    });
+};
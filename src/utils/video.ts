@@ -0,0 +1,94 @@
+// Embed hosts episodes may use. `video_url` is rendered in an iframe by the apps, so it must be
+// an embed/player URL; `toEmbedUrl` rewrites the usual share links into one.
+
+export interface VideoProvider {
+    id: string;
+    name: string;
+    hosts: string[]; // matched against the hostname and its parent domains
+    toEmbedUrl?: (url: URL) => string | null;
+}
+
+const lastPathSegment = (url: URL) => url.pathname.split('/').filter(Boolean).pop() || null;
+
+export const VIDEO_PROVIDERS: VideoProvider[] = [
+    {
+        id: 'youtube',
+        name: 'YouTube',
+        hosts: ['youtube.com', 'youtube-nocookie.com', 'youtu.be'],
+        toEmbedUrl: (url) => {
+            if (url.pathname.startsWith('/embed/')) return url.toString();
+            const id = url.hostname === 'youtu.be' ? lastPathSegment(url) : url.searchParams.get('v');
+            return id ? `https://www.youtube.com/embed/${id}` : null;
+        },
+    },
+    {
+        id: 'vimeo',
+        name: 'Vimeo',
+        hosts: ['vimeo.com'],
+        toEmbedUrl: (url) => {
+            if (url.hostname === 'player.vimeo.com') return url.toString();
+            const id = lastPathSegment(url);
+            return id && /^\d+$/.test(id) ? `https://player.vimeo.com/video/${id}` : null;
+        },
+    },
+    {
+        id: 'dailymotion',
+        name: 'Dailymotion',
+        hosts: ['dailymotion.com', 'dai.ly'],
+        toEmbedUrl: (url) => {
+            if (url.pathname.startsWith('/embed/')) return url.toString();
+            const id = lastPathSegment(url);
+            return id ? `https://www.dailymotion.com/embed/video/${id}` : null;
+        },
+    },
+    {
+        id: 'google-drive',
+        name: 'Google Drive',
+        hosts: ['drive.google.com'],
+        toEmbedUrl: (url) => {
+            const match = url.pathname.match(/\/file\/d\/([^/]+)/);
+            return match ? `https://drive.google.com/file/d/${match[1]}/preview` : null;
+        },
+    },
+    {
+        id: 'streamable',
+        name: 'Streamable',
+        hosts: ['streamable.com'],
+        toEmbedUrl: (url) => {
+            if (url.pathname.startsWith('/e/')) return url.toString();
+            const id = lastPathSegment(url);
+            return id ? `https://streamable.com/e/${id}` : null;
+        },
+    },
+];
+
+export const ALLOWED_VIDEO_HOSTS = VIDEO_PROVIDERS.flatMap((provider) => provider.hosts);
+
+const parseUrl = (value: string) => {
+    try {
+        return new URL(value);
+    } catch {
+        return null;
+    }
+};
+
+const matchesHost = (hostname: string, host: string) => hostname === host || hostname.endsWith(`.${host}`);
+
+export const detectVideoProvider = (value: string): VideoProvider | null => {
+    const url = parseUrl(value);
+    if (!url) return null;
+    return VIDEO_PROVIDERS.find((provider) => provider.hosts.some((host) => matchesHost(url.hostname, host))) ?? null;
+};
+
+export const isAllowedVideoUrl = (value: string) => {
+    const url = parseUrl(value);
+    return !!url && url.protocol === 'https:' && detectVideoProvider(value) !== null;
+};
+
+// Embed form of a share/watch link, or the URL unchanged when it already is one
+export const toEmbedUrl = (value: string) => {
+    const url = parseUrl(value);
+    const provider = detectVideoProvider(value);
+    if (!url || !provider?.toEmbedUrl) return value;
+    return provider.toEmbedUrl(url) ?? value;
+};